@@ -27,6 +27,12 @@ gcloud services enable cloudbuild.googleapis.com
 echo "🔨 Building project..."
 npm run build
 
+# The function refuses to start without an API key
+if [ ! -f api-keys.json ]; then
+    echo "🔑 Creating an API key..."
+    node dist/admin.js keys create --name claude || exit 1
+fi
+
 # Deploy function
 echo "☁️ Deploying function..."
 gcloud functions deploy $FUNCTION_NAME \
@@ -37,7 +43,6 @@ gcloud functions deploy $FUNCTION_NAME \
     --entry-point=$ENTRY_POINT \
     --trigger-http \
     --allow-unauthenticated \
-    --set-env-vars="AUTH_TOKEN=${AUTH_TOKEN:-$(openssl rand -hex 32)}" \
     --memory=256MB \
     --timeout=60s
 
@@ -47,4 +52,4 @@ echo ""
 echo "Function URL:"
 gcloud functions describe $FUNCTION_NAME --region=$REGION --gen2 --format='value(serviceConfig.uri)'
 echo ""
-echo "⚠️  Save the AUTH_TOKEN for Claude configuration!"
\ No newline at end of file
+echo "⚠️  Save the API key for Claude configuration! Manage keys with: npm run admin -- keys list"
\ No newline at end of file
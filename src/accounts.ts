@@ -0,0 +1,372 @@
+import { promises as fs } from 'fs';
+import { AliasStore, createAliasStore } from './aliases.js';
+import { AuditSink, AuditTransport, createAuditSink } from './audit.js';
+import { GoogleAuth } from './auth.js';
+import { createDeviceBackend, DeviceBackend, StateCache } from './devices/index.js';
+import { createGroupStore, GroupStore } from './groups.js';
+import { ApiKey, ApiKeyStore, isKeyActive, KeyScope, parseScopes } from './keys.js';
+import { ConfirmationGate, DevicePolicy, OneTimeTokens, PolicyBackend } from './permissions.js';
+import { createSceneStore, SceneStore } from './scenes.js';
+import { ToolContext } from './registry.js';
+import { Coordinates } from './scheduler/solar.js';
+import { createTokenStore } from './tokens.js';
+
+// A home is one device namespace. Its env overrides the account's env when
+// creating the backend (DEVICE_BACKEND, SDM_PROJECT_ID, FAKE_DEVICES_FILE, ...).
+export interface HomeConfig {
+  id: string;
+  name?: string;
+  env?: Record<string, string>;
+}
+
+export interface UserConfig {
+  id: string;
+  name?: string;
+  // Overrides for Google credentials and token storage (GOOGLE_CREDENTIALS, TOKEN_STORE, ...)
+  env?: Record<string, string>;
+  homes?: HomeConfig[];
+}
+
+export interface UsersFile {
+  users: UserConfig[];
+}
+
+export interface HomeSummary {
+  id: string;
+  name: string;
+  backend: string;
+  active: boolean;
+}
+
+// Who is making a request: the account, and the API key used on remote
+// transports (stdio has no key; its scopes come from MCP_SCOPES)
+export interface Caller {
+  account: Account;
+  transport: AuditTransport;
+  key?: { id: string; name: string };
+  scopes: KeyScope[];
+  devicePolicy?: DevicePolicy;
+}
+
+// Per-account state that lives outside the account itself
+export interface AccountServices {
+  auth: GoogleAuth;
+  audit: AuditSink;
+  scenes: SceneStore;
+  groups: GroupStore;
+  aliases: AliasStore;
+}
+
+const DEFAULT_HOME: HomeConfig = { id: 'default', name: 'Home' };
+
+// Seconds a device list or state read is reused before going upstream again
+const DEFAULT_STATE_CACHE_TTL = 30;
+
+// Seconds a COMMAND_POLICY=confirm token stays valid
+const DEFAULT_COMMAND_TOKEN_TTL = 300;
+
+// The only user when USERS_FILE is not set
+export const DEFAULT_USER = 'default';
+
+// One caller identity: its own Google authorization and one backend per home.
+// The active home is per account rather than per connection, so stateless
+// transports (the Cloud Function) keep the selection between requests.
+export class Account {
+  readonly auth: GoogleAuth;
+  readonly scenes: SceneStore;
+  readonly groups: GroupStore;
+  readonly aliases: AliasStore;
+  readonly confirmations: ConfirmationGate;
+  // Set when COMMAND_POLICY=confirm: commands only run with a token from a preview
+  readonly commandTokens?: OneTimeTokens;
+
+  private homes: HomeConfig[];
+  private backends = new Map<string, StateCache>();
+  private activeHomeId: string;
+
+  private audit: AuditSink;
+
+  constructor(readonly user: UserConfig, services: AccountServices, private env: NodeJS.ProcessEnv) {
+    this.auth = services.auth;
+    this.audit = services.audit;
+    this.scenes = services.scenes;
+    this.groups = services.groups;
+    this.aliases = services.aliases;
+    this.confirmations = new ConfirmationGate(env.CONFIRMATION_PIN || undefined);
+    this.commandTokens = createCommandTokens(env);
+    this.homes = user.homes && user.homes.length > 0 ? user.homes : [DEFAULT_HOME];
+    this.activeHomeId = this.homes[0].id;
+  }
+
+  get id(): string {
+    return this.user.id;
+  }
+
+  get activeHome(): string {
+    return this.activeHomeId;
+  }
+
+  // Backends are created on first use and kept, so their state and clients
+  // are shared by every connection of this account
+  get devices(): DeviceBackend {
+    return this.getBackend(this.activeHomeId);
+  }
+
+  listHomes(): HomeSummary[] {
+    return this.homes.map((home) => ({
+      id: home.id,
+      name: home.name ?? home.id,
+      backend: this.getBackend(home.id).name,
+      active: home.id === this.activeHomeId,
+    }));
+  }
+
+  selectHome(homeId: string): HomeSummary {
+    this.findHome(homeId);
+    this.activeHomeId = homeId;
+    return this.listHomes().find((home) => home.id === homeId)!;
+  }
+
+  // LATITUDE and LONGITUDE from the home's env (or the account's), for sun-based schedules
+  location(homeId = this.activeHomeId): Coordinates | undefined {
+    const env = { ...this.env, ...this.findHome(homeId).env };
+    if (!env.LATITUDE || !env.LONGITUDE) {
+      return undefined;
+    }
+
+    const latitude = Number(env.LATITUDE);
+    const longitude = Number(env.LONGITUDE);
+    if (!(Math.abs(latitude) <= 90) || !(Math.abs(longitude) <= 180)) {
+      throw new Error(`Invalid LATITUDE/LONGITUDE for home ${homeId}: ${env.LATITUDE}, ${env.LONGITUDE}`);
+    }
+    return { latitude, longitude };
+  }
+
+  // With homeId the context stays on that home (schedules run against the
+  // home they were created in); otherwise it follows the active home
+  createContext(caller: Caller, homeId?: string): ToolContext {
+    const account = this;
+    const { devicePolicy } = caller;
+    if (homeId) {
+      this.findHome(homeId);
+    }
+    return {
+      caller,
+      account,
+      auth: account.auth,
+      audit: this.audit,
+      get devices() {
+        const backend = account.getBackend(homeId ?? account.activeHomeId);
+        return devicePolicy ? new PolicyBackend(backend, devicePolicy) : backend;
+      },
+      get states() {
+        return account.getBackend(homeId ?? account.activeHomeId);
+      },
+    };
+  }
+
+  private findHome(homeId: string): HomeConfig {
+    const home = this.homes.find((candidate) => candidate.id === homeId);
+    if (!home) {
+      throw new Error(`Unknown home: ${homeId}. Available: ${this.homes.map((candidate) => candidate.id).join(', ')}`);
+    }
+    return home;
+  }
+
+  private getBackend(homeId: string): StateCache {
+    let backend = this.backends.get(homeId);
+    if (!backend) {
+      const env = { ...this.env, ...this.findHome(homeId).env };
+      const ttl = Number(env.STATE_CACHE_TTL ?? DEFAULT_STATE_CACHE_TTL);
+      if (!Number.isFinite(ttl) || ttl < 0) {
+        throw new Error(`Invalid STATE_CACHE_TTL: ${env.STATE_CACHE_TTL}`);
+      }
+      backend = new StateCache(createDeviceBackend(this.auth, env), ttl * 1000);
+      this.backends.set(homeId, backend);
+    }
+    return backend;
+  }
+}
+
+function createCommandTokens(env: NodeJS.ProcessEnv): OneTimeTokens | undefined {
+  const policy = env.COMMAND_POLICY || 'execute';
+  if (policy === 'execute') {
+    return undefined;
+  }
+  if (policy !== 'confirm') {
+    throw new Error(`Invalid COMMAND_POLICY: ${policy}. Use "execute" or "confirm".`);
+  }
+
+  const ttl = Number(env.COMMAND_TOKEN_TTL ?? DEFAULT_COMMAND_TOKEN_TTL);
+  if (!Number.isFinite(ttl) || ttl <= 0) {
+    throw new Error(`Invalid COMMAND_TOKEN_TTL: ${env.COMMAND_TOKEN_TTL}`);
+  }
+  // Longer than challenges, since these are copied rather than typed
+  return new OneTimeTokens(ttl * 1000, 16);
+}
+
+// Maps API keys to accounts. USERS_FILE lists the users; without it there is
+// a single "default" account.
+export class AccountDirectory {
+  readonly audit: AuditSink;
+
+  private accounts = new Map<string, Account>();
+  private readOnly: boolean;
+
+  constructor(
+    users: UserConfig[],
+    readonly keys: ApiKeyStore,
+    private env: NodeJS.ProcessEnv = process.env,
+    singleUser = false
+  ) {
+    // READ_ONLY=true caps every caller at the read scope
+    this.readOnly = env.READ_ONLY === 'true';
+    this.audit = createAuditSink(env);
+
+    for (const user of users) {
+      if (this.accounts.has(user.id)) {
+        throw new Error(`Duplicate user id: ${user.id}`);
+      }
+
+      // Shared file settings would make every user overwrite the same token, scenes, groups and aliases
+      const userEnv: NodeJS.ProcessEnv = singleUser
+        ? { ...env, ...user.env }
+        : {
+            ...env,
+            TOKEN_PATH: undefined,
+            GOOGLE_TOKEN: undefined,
+            SCENES_FILE: undefined,
+            GROUPS_FILE: undefined,
+            ALIASES_FILE: undefined,
+            ...user.env,
+          };
+      const storageKey = (base: string) => (singleUser ? base : `${base}-${user.id}`);
+
+      const services: AccountServices = {
+        auth: new GoogleAuth(createTokenStore(userEnv, storageKey('token')), userEnv),
+        audit: this.audit,
+        scenes: createSceneStore(userEnv, storageKey('scenes')),
+        groups: createGroupStore(userEnv, storageKey('groups')),
+        aliases: createAliasStore(userEnv, storageKey('aliases')),
+      };
+      const account = new Account(user, services, userEnv);
+      this.accounts.set(user.id, account);
+    }
+  }
+
+  static async fromEnv(env: NodeJS.ProcessEnv = process.env): Promise<AccountDirectory> {
+    const keys = new ApiKeyStore(env.API_KEYS_FILE || undefined);
+    if (!env.USERS_FILE) {
+      return new AccountDirectory([{ id: DEFAULT_USER }], keys, env, true);
+    }
+
+    const config: UsersFile = JSON.parse(await fs.readFile(env.USERS_FILE, 'utf-8'));
+    if (!Array.isArray(config.users) || config.users.length === 0) {
+      throw new Error(`${env.USERS_FILE} must list at least one user`);
+    }
+    return new AccountDirectory(config.users, keys, env);
+  }
+
+  list(): Account[] {
+    return [...this.accounts.values()];
+  }
+
+  get(userId: string): Account | undefined {
+    return this.accounts.get(userId);
+  }
+
+  // The account used by single-caller transports (stdio): MCP_USER, else the first user
+  primary(): Account {
+    const account = this.env.MCP_USER ? this.accounts.get(this.env.MCP_USER) : this.list()[0];
+    if (!account) {
+      throw new Error(`Unknown MCP_USER: ${this.env.MCP_USER}`);
+    }
+    return account;
+  }
+
+  // stdio's caller. Without MCP_SCOPES it can use every tool, but security
+  // devices still need a confirmation unless "elevated" is listed.
+  localCaller(): Caller {
+    return {
+      account: this.primary(),
+      transport: 'stdio',
+      scopes: this.limitScopes(parseScopes(this.env.MCP_SCOPES || 'read,control')),
+    };
+  }
+
+  // Resolves an Authorization header to a caller. Keys whose user is no
+  // longer in USERS_FILE are rejected like unknown keys.
+  async authenticate(authorization: string | undefined, transport: AuditTransport): Promise<Caller | null> {
+    const match = authorization?.match(/^Bearer (.+)$/);
+    const key = match ? await this.keys.verify(match[1]) : null;
+    return key ? this.keyCaller(key, transport) : null;
+  }
+
+  // The caller behind a stored key id, for work done later on its behalf
+  // (schedules). Null once the key is revoked or expired.
+  async callerForKey(keyId: string, transport: AuditTransport): Promise<Caller | null> {
+    const key = (await this.keys.list()).find((candidate) => candidate.id === keyId);
+    return key && isKeyActive(key) ? this.keyCaller(key, transport) : null;
+  }
+
+  // Whether a caller's key still grants access, for connections that outlive
+  // the request that authenticated them. Callers without a key (stdio) always do.
+  async isActive(caller: Caller): Promise<boolean> {
+    if (!caller.key) {
+      return true;
+    }
+    const current = await this.callerForKey(caller.key.id, caller.transport);
+    return current?.account === caller.account;
+  }
+
+  // Remote servers refuse to start without a usable key rather than fall back to a default
+  async assertKeysConfigured(): Promise<void> {
+    const keys = await this.keys.list();
+    if (!keys.some((key) => isKeyActive(key) && this.accounts.has(key.user))) {
+      throw new Error(
+        `No active API keys for the configured users in ${this.keys.filePath}. ` +
+          'Create one with: npm run admin -- keys create --name <name>'
+      );
+    }
+  }
+
+  // The OAuth callback carries no bearer token, so the state decides whose
+  // authorization it completes
+  async completeAuthorization(state: string, code: string): Promise<void> {
+    const account = this.list().find((candidate) => candidate.auth.ownsAuthorization(state));
+    if (!account) {
+      throw new Error('Unknown or expired authorization state. Request a new auth URL.');
+    }
+    await account.auth.completeAuthorization(state, code);
+  }
+
+  async initialize(): Promise<void> {
+    await Promise.all(
+      this.list().map(async (account) => {
+        try {
+          await account.auth.initialize();
+        } catch (error) {
+          console.error(`Warning: Could not initialize Google Auth for ${account.id}. You will need to authenticate.`);
+        }
+      })
+    );
+  }
+
+  private keyCaller(key: ApiKey, transport: AuditTransport): Caller | null {
+    const account = this.accounts.get(key.user);
+    if (!account) {
+      return null;
+    }
+    return {
+      account,
+      transport,
+      key: { id: key.id, name: key.name },
+      scopes: this.limitScopes(key.scopes),
+      devicePolicy: key.devices,
+    };
+  }
+
+  private limitScopes(scopes: KeyScope[]): KeyScope[] {
+    return this.readOnly ? ['read'] : scopes;
+  }
+}
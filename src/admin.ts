@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+import { parseArgs } from 'util';
+import dotenv from 'dotenv';
+import { AccountDirectory, DEFAULT_USER } from './accounts.js';
+import { ApiKey, isKeyActive, parseExpiry, parseList, parseScopes } from './keys.js';
+
+dotenv.config();
+
+const USAGE = `Usage: admin keys <command>
+
+Commands:
+  create --name <name> [--user <id>] [--scope read,control,elevated] [--expires 30d|<date>]
+         [--allow <ids/rooms>] [--deny <ids/rooms>]
+      Create an API key. The key is printed once; only its hash is stored.
+      Scopes default to read,control; each includes the ones before it
+      (elevated > control > read). --allow/--deny take comma-separated
+      device IDs or room names the key may (not) see and control.
+  list [--all]
+      List active keys (--all includes revoked and expired keys).
+  revoke <id|name>
+      Revoke a key. Running servers stop accepting it immediately.
+
+Keys are stored in API_KEYS_FILE (default: api-keys.json). --user must be a
+user from USERS_FILE when it is set.`;
+
+function describeKey(key: ApiKey): string {
+  const status = key.revokedAt ? `revoked ${key.revokedAt}` : isKeyActive(key) ? 'active' : 'expired';
+  const expires = key.expiresAt ? `expires ${key.expiresAt}` : 'no expiry';
+  const policy = [
+    key.devices?.allow?.length ? `allow=${key.devices.allow.join(',')}` : '',
+    key.devices?.deny?.length ? `deny=${key.devices.deny.join(',')}` : '',
+  ].filter(Boolean);
+  return [key.id, key.name, `user=${key.user}`, `scopes=${key.scopes.join(',')}`, ...policy, expires, status].join('  ');
+}
+
+async function keysCommand(args: string[]): Promise<void> {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      name: { type: 'string' },
+      user: { type: 'string' },
+      scope: { type: 'string' },
+      expires: { type: 'string' },
+      allow: { type: 'string' },
+      deny: { type: 'string' },
+      all: { type: 'boolean' },
+    },
+  });
+  const [command, target] = positionals;
+  const accounts = await AccountDirectory.fromEnv();
+
+  switch (command) {
+    case 'create': {
+      if (!values.name) {
+        throw new Error('keys create requires --name');
+      }
+      const user = values.user ?? (process.env.USERS_FILE ? undefined : DEFAULT_USER);
+      if (!user || !accounts.get(user)) {
+        throw new Error(
+          `Unknown user: ${user ?? '(none)'}. Pass --user with one of: ${accounts.list().map((account) => account.id).join(', ')}`
+        );
+      }
+
+      const { key, record } = await accounts.keys.create({
+        name: values.name,
+        user,
+        scopes: parseScopes(values.scope ?? 'read,control'),
+        devices:
+          values.allow || values.deny
+            ? { allow: values.allow ? parseList(values.allow) : undefined, deny: values.deny ? parseList(values.deny) : undefined }
+            : undefined,
+        expiresAt: values.expires ? parseExpiry(values.expires) : undefined,
+      });
+      console.log(describeKey(record));
+      console.log(`\nAPI key (shown once, send as "Authorization: Bearer <key>"):\n${key}`);
+      return;
+    }
+    case 'list': {
+      const keys = (await accounts.keys.list()).filter((key) => values.all || isKeyActive(key));
+      console.log(keys.length > 0 ? keys.map(describeKey).join('\n') : 'No keys.');
+      return;
+    }
+    case 'revoke': {
+      if (!target) {
+        throw new Error('keys revoke requires a key id or name');
+      }
+      console.log(describeKey(await accounts.keys.revoke(target)));
+      return;
+    }
+    default:
+      throw new Error(USAGE);
+  }
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [group, ...rest] = argv;
+  if (group !== 'keys') {
+    throw new Error(USAGE);
+  }
+  await keysCommand(rest);
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
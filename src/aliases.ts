@@ -0,0 +1,54 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { ListFile, sameName } from './files.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const AliasSchema = z
+  .object({
+    alias: z.string().trim().min(1).describe('Name to use for the device, e.g. "reading lamp"'),
+    device: z.string().describe('Device ID'),
+  })
+  .strict();
+
+export type Alias = z.infer<typeof AliasSchema>;
+
+// User-defined device names in a JSON file. Each alias names one device and
+// is case-insensitive; a device may have several. Read on every call.
+export class AliasStore {
+  private file: ListFile<Alias>;
+
+  constructor(readonly filePath: string) {
+    this.file = new ListFile(filePath, { key: 'aliases', item: AliasSchema });
+  }
+
+  list(): Promise<Alias[]> {
+    return this.file.read();
+  }
+
+  // Points the alias at the device, replacing whatever it named before
+  async set(alias: Alias): Promise<void> {
+    await this.file.update((aliases) => [
+      ...aliases.filter((candidate) => !sameName(candidate.alias, alias.alias)),
+      alias,
+    ]);
+  }
+
+  async delete(alias: string): Promise<Alias> {
+    let existing: Alias | undefined;
+    await this.file.update((aliases) => {
+      existing = aliases.find((candidate) => sameName(candidate.alias, alias));
+      if (!existing) {
+        throw new Error(`Unknown alias: ${alias}`);
+      }
+      return aliases.filter((candidate) => candidate !== existing);
+    });
+    return existing!;
+  }
+}
+
+// ALIASES_FILE, or aliases.json (aliases-<user>.json with USERS_FILE) in the project root
+export function createAliasStore(env: NodeJS.ProcessEnv = process.env, key = 'aliases'): AliasStore {
+  return new AliasStore(env.ALIASES_FILE || path.join(__dirname, `../${key}.json`));
+}
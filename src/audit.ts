@@ -0,0 +1,143 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { fileURLToPath } from 'url';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export type AuditTransport = 'stdio' | 'ws' | 'http' | 'function' | 'scheduler';
+
+export interface AuditResult {
+  id: string;
+  status: string;
+  errorCode?: string;
+}
+
+export interface AuditEntry {
+  timestamp: string;
+  user: string;
+  key?: string;
+  keyId?: string;
+  transport: AuditTransport;
+  tool: string;
+  // Set when the command ran as a step of a scene
+  scene?: string;
+  // Set when a schedule ran the command
+  schedule?: string;
+  devices: string[];
+  command?: string;
+  params?: Record<string, unknown>;
+  results?: AuditResult[];
+  error?: string;
+}
+
+export interface AuditQuery {
+  // Exact user id; set by the server to keep users to their own entries
+  user?: string;
+  since?: string;
+  until?: string;
+  device?: string;
+  // Matches the user id, key name or key id
+  caller?: string;
+  limit?: number;
+}
+
+// Where entries go. Sinks only append; nothing rewrites or deletes entries.
+export interface AuditSink {
+  append(entry: AuditEntry): Promise<void>;
+  query(query: AuditQuery): Promise<AuditEntry[]>;
+}
+
+const DEFAULT_LIMIT = 100;
+
+export function matchesAuditQuery(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (
+    (!query.user || entry.user === query.user) &&
+    (!query.since || time >= Date.parse(query.since)) &&
+    (!query.until || time <= Date.parse(query.until)) &&
+    (!query.device || entry.devices.includes(query.device)) &&
+    (!query.caller || [entry.user, entry.key, entry.keyId].includes(query.caller))
+  );
+}
+
+// Keeps the newest `limit` matches, returned newest first
+function collect(entries: Iterable<AuditEntry>, query: AuditQuery): AuditEntry[] {
+  const limit = query.limit ?? DEFAULT_LIMIT;
+  const matches: AuditEntry[] = [];
+  for (const entry of entries) {
+    if (matchesAuditQuery(entry, query)) {
+      matches.push(entry);
+      if (matches.length > limit) {
+        matches.shift();
+      }
+    }
+  }
+  return matches.reverse();
+}
+
+export class MemoryAuditSink implements AuditSink {
+  private entries: AuditEntry[] = [];
+
+  async append(entry: AuditEntry): Promise<void> {
+    this.entries.push(structuredClone(entry));
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    return collect(this.entries, query).map((entry) => structuredClone(entry));
+  }
+}
+
+// One JSON object per line. Appends are chained so concurrent entries never
+// interleave, and the file is only ever opened for appending.
+export class JsonlAuditSink implements AuditSink {
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string) {}
+
+  append(entry: AuditEntry): Promise<void> {
+    const line = `${JSON.stringify(entry)}\n`;
+    this.writes = this.writes
+      .catch(() => {})
+      .then(async () => {
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.appendFile(this.filePath, line, { mode: 0o600, flag: 'a' });
+      });
+    return this.writes;
+  }
+
+  async query(query: AuditQuery): Promise<AuditEntry[]> {
+    await this.writes.catch(() => {});
+
+    const entries: AuditEntry[] = [];
+    try {
+      const lines = readline.createInterface({ input: createReadStream(this.filePath, 'utf-8'), crlfDelay: Infinity });
+      for await (const line of lines) {
+        const entry: AuditEntry | null = line.trim() ? JSON.parse(line) : null;
+        if (entry && matchesAuditQuery(entry, query)) {
+          entries.push(entry);
+        }
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+    return collect(entries, query);
+  }
+}
+
+// AUDIT_LOG selects the sink: file (default, AUDIT_LOG_PATH) or memory
+export function createAuditSink(env: NodeJS.ProcessEnv = process.env): AuditSink {
+  const kind = env.AUDIT_LOG || 'file';
+
+  switch (kind) {
+    case 'file':
+      return new JsonlAuditSink(env.AUDIT_LOG_PATH || path.join(__dirname, '../audit.jsonl'));
+    case 'memory':
+      return new MemoryAuditSink();
+    default:
+      throw new Error(`Unknown AUDIT_LOG: ${kind}`);
+  }
+}
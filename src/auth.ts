@@ -1,7 +1,9 @@
-import { OAuth2Client } from 'google-auth-library';
+import { CodeChallengeMethod, Credentials as OAuthTokens, JWT, OAuth2Client } from 'google-auth-library';
+import { randomBytes } from 'crypto';
 import { promises as fs } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
+import { createTokenStore, TokenStore } from './tokens.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -11,20 +13,92 @@ export interface Credentials {
   redirect_uris: string[];
 }
 
+export interface AuthStatus {
+  initialized: boolean;
+  authenticated: boolean;
+  reconsentRequired: boolean;
+  reason?: string;
+  scopes: string[];
+  missingScopes: string[];
+  expiresAt?: string;
+  expiresInSeconds?: number;
+  hasRefreshToken: boolean;
+}
+
+interface PendingAuthorization {
+  codeVerifier: string;
+  redirectUri?: string;
+  expiresAt: number;
+}
+
+// How long an auth URL (its state and PKCE verifier) stays valid
+const AUTHORIZATION_TTL_MS = 10 * 60 * 1000;
+
+export const SCOPES = [
+  'https://www.googleapis.com/auth/homegraph',
+  'https://www.googleapis.com/auth/assistant-sdk-prototype',
+  'https://www.googleapis.com/auth/sdm.service',
+];
+
+export interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+  project_id?: string;
+}
+
+export const HOMEGRAPH_SCOPE = 'https://www.googleapis.com/auth/homegraph';
+
+// Service-account client for HomeGraph (Smart Home Action mode). The key
+// comes from GOOGLE_SERVICE_ACCOUNT_KEY (JSON) or GOOGLE_SERVICE_ACCOUNT_FILE.
+export async function loadServiceAccountClient(env: NodeJS.ProcessEnv = process.env): Promise<JWT> {
+  let key: ServiceAccountKey;
+  if (env.GOOGLE_SERVICE_ACCOUNT_KEY) {
+    key = JSON.parse(env.GOOGLE_SERVICE_ACCOUNT_KEY);
+  } else if (env.GOOGLE_SERVICE_ACCOUNT_FILE) {
+    key = JSON.parse(await fs.readFile(env.GOOGLE_SERVICE_ACCOUNT_FILE, 'utf-8'));
+  } else {
+    throw new Error('Service account mode needs GOOGLE_SERVICE_ACCOUNT_KEY or GOOGLE_SERVICE_ACCOUNT_FILE');
+  }
+
+  if (!key.client_email || !key.private_key) {
+    throw new Error('Service account key must contain client_email and private_key');
+  }
+
+  return new JWT({
+    email: key.client_email,
+    key: key.private_key,
+    scopes: [HOMEGRAPH_SCOPE],
+  });
+}
+
+// Google answers invalid_grant when a refresh token was revoked or expired
+function isInvalidGrant(error: unknown): boolean {
+  const data = (error as { response?: { data?: { error?: string } } })?.response?.data;
+  return data?.error === 'invalid_grant' || (error instanceof Error && error.message.includes('invalid_grant'));
+}
+
 export class GoogleAuth {
   private oauth2Client: OAuth2Client | null = null;
   private credentialsPath: string;
-  private tokenPath: string;
+  private tokenStore: TokenStore;
+  private reconsentReason: string | null = null;
+  private pending = new Map<string, PendingAuthorization>();
+  private redirectUriProvider: (() => string | Promise<string>) | null = null;
+  private authorizedAt: Date | null = null;
+  private waiters: Array<() => void> = [];
+  // Set while a code is exchanged; exchangeCode saves those tokens itself
+  private exchanging = false;
 
-  constructor() {
+  // env supplies GOOGLE_CREDENTIALS, so each account can use its own OAuth client
+  constructor(tokenStore: TokenStore = createTokenStore(), private env: NodeJS.ProcessEnv = process.env) {
     this.credentialsPath = path.join(__dirname, '../credentials.json');
-    this.tokenPath = path.join(__dirname, '../token.json');
+    this.tokenStore = tokenStore;
   }
 
   async initialize(): Promise<void> {
     try {
       // Check if credentials are provided via environment variable first
-      const envCredentials = process.env.GOOGLE_CREDENTIALS;
+      const envCredentials = this.env.GOOGLE_CREDENTIALS;
       let credentials;
       
       if (envCredentials) {
@@ -48,43 +122,110 @@ export class GoogleAuth {
         redirect_uris[0]
       );
 
+      // Fires on every code exchange and refresh, so refreshed access tokens survive restarts
+      this.oauth2Client.on('tokens', (tokens) => {
+        if (this.exchanging) {
+          return;
+        }
+        this.persistTokens(tokens).catch((error) => {
+          console.error(`Failed to persist refreshed token: ${error}`);
+        });
+      });
+
       try {
-        const tokenContent = await fs.readFile(this.tokenPath, 'utf-8');
-        const token = JSON.parse(tokenContent);
-        this.oauth2Client.setCredentials(token);
+        const token = await this.tokenStore.load();
+        if (token) {
+          this.oauth2Client.setCredentials(token);
+        } else {
+          console.log('No token found, authorization required');
+        }
       } catch (error) {
-        console.log('No token found, authorization required');
+        console.error(`Failed to load stored token: ${error}`);
       }
     } catch (error) {
       console.error(`Failed to initialize Google Auth: ${error}`);
     }
   }
 
-  getAuthUrl(): string {
+  // Where Google should send the user back. Without a provider the first
+  // redirect URI from the credentials is used and the code is pasted by hand.
+  setRedirectUriProvider(provider: () => string | Promise<string>): void {
+    this.redirectUriProvider = provider;
+  }
+
+  async getAuthUrl(): Promise<string> {
     if (!this.oauth2Client) {
       throw new Error('OAuth2 client not initialized');
     }
 
-    const scopes = [
-      'https://www.googleapis.com/auth/homegraph',
-      'https://www.googleapis.com/auth/assistant-sdk-prototype'
-    ];
+    const redirectUri = this.redirectUriProvider ? await this.redirectUriProvider() : undefined;
+    const { codeVerifier, codeChallenge } = await this.oauth2Client.generateCodeVerifierAsync();
+    const state = randomBytes(16).toString('hex');
 
+    this.prunePending();
+    this.pending.set(state, { codeVerifier, redirectUri, expiresAt: Date.now() + AUTHORIZATION_TTL_MS });
+
+    // prompt=consent makes Google issue a new refresh token even on re-authorization
     return this.oauth2Client.generateAuthUrl({
       access_type: 'offline',
-      scope: scopes,
+      prompt: 'consent',
+      scope: SCOPES,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256,
+      redirect_uri: redirectUri,
     });
   }
 
+  // Completes the flow from the OAuth callback; state must match an issued auth URL
+  async completeAuthorization(state: string, code: string): Promise<void> {
+    this.prunePending();
+    const pending = this.pending.get(state);
+    if (!pending) {
+      throw new Error('Unknown or expired authorization state. Request a new auth URL.');
+    }
+    this.pending.delete(state);
+    await this.exchangeCode(code, pending);
+  }
+
+  // Manual flow: the user pasted the code, so pair it with the latest auth URL's verifier
   async getTokenFromCode(code: string): Promise<void> {
-    if (!this.oauth2Client) {
-      throw new Error('OAuth2 client not initialized');
+    this.prunePending();
+    const latest = [...this.pending.entries()].pop();
+    if (latest) {
+      this.pending.delete(latest[0]);
     }
+    await this.exchangeCode(code, latest?.[1]);
+  }
 
-    const { tokens } = await this.oauth2Client.getToken(code);
-    this.oauth2Client.setCredentials(tokens);
-    
-    await fs.writeFile(this.tokenPath, JSON.stringify(tokens, null, 2));
+  // Whether state belongs to an auth URL this instance issued and is still valid
+  ownsAuthorization(state: string): boolean {
+    this.prunePending();
+    return this.pending.has(state);
+  }
+
+  hasPendingAuthorization(): boolean {
+    this.prunePending();
+    return this.pending.size > 0;
+  }
+
+  getAuthorizedAt(): Date | null {
+    return this.authorizedAt;
+  }
+
+  // Resolves true once an authorization completes, or false after timeoutMs
+  waitForAuthorization(timeoutMs: number): Promise<boolean> {
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        this.waiters = this.waiters.filter((waiter) => waiter !== done);
+        resolve(false);
+      }, timeoutMs);
+      this.waiters.push(done);
+    });
   }
 
   getClient(): OAuth2Client {
@@ -95,6 +236,104 @@ export class GoogleAuth {
   }
 
   isAuthenticated(): boolean {
-    return !!(this.oauth2Client && this.oauth2Client.credentials.access_token);
+    if (!this.oauth2Client || this.reconsentReason) {
+      return false;
+    }
+    const { access_token, refresh_token, expiry_date } = this.oauth2Client.credentials;
+    if (refresh_token) {
+      return true;
+    }
+    return !!access_token && (!expiry_date || expiry_date > Date.now());
+  }
+
+  // Call with errors from Google APIs so a revoked grant is noticed without waiting for auth_status
+  handleApiError(error: unknown): void {
+    if (isInvalidGrant(error)) {
+      this.reconsentReason = 'Refresh token was revoked or has expired';
+    }
+  }
+
+  async getAuthStatus(options: { refresh?: boolean } = {}): Promise<AuthStatus> {
+    const credentials = this.oauth2Client?.credentials ?? {};
+    const expired = !!credentials.expiry_date && credentials.expiry_date <= Date.now();
+
+    // An expired access token is only a problem if the refresh token no longer works
+    if (this.oauth2Client && credentials.refresh_token && !this.reconsentReason && (options.refresh || expired)) {
+      try {
+        if (options.refresh) {
+          await this.oauth2Client.refreshAccessToken();
+        } else {
+          await this.oauth2Client.getAccessToken();
+        }
+      } catch (error) {
+        this.handleApiError(error);
+        if (!this.reconsentReason) {
+          throw error;
+        }
+      }
+    }
+
+    const current = this.oauth2Client?.credentials ?? {};
+    const scopes = current.scope ? current.scope.split(' ') : [];
+    const missingScopes = scopes.length > 0 ? SCOPES.filter((scope) => !scopes.includes(scope)) : [];
+    const reason =
+      this.reconsentReason ??
+      (missingScopes.length > 0 ? 'Granted scopes are missing some required scopes' : undefined) ??
+      (current.access_token && !current.refresh_token && expired ? 'Access token expired and there is no refresh token' : undefined);
+
+    return {
+      initialized: !!this.oauth2Client,
+      authenticated: this.isAuthenticated(),
+      reconsentRequired: !!reason,
+      reason,
+      scopes,
+      missingScopes,
+      expiresAt: current.expiry_date ? new Date(current.expiry_date).toISOString() : undefined,
+      expiresInSeconds: current.expiry_date ? Math.round((current.expiry_date - Date.now()) / 1000) : undefined,
+      hasRefreshToken: !!current.refresh_token,
+    };
+  }
+
+  private async exchangeCode(code: string, pending?: PendingAuthorization): Promise<void> {
+    if (!this.oauth2Client) {
+      throw new Error('OAuth2 client not initialized');
+    }
+
+    let tokens: OAuthTokens;
+    this.exchanging = true;
+    try {
+      ({ tokens } = await this.oauth2Client.getToken({
+        code,
+        codeVerifier: pending?.codeVerifier,
+        redirect_uri: pending?.redirectUri,
+      }));
+    } finally {
+      this.exchanging = false;
+    }
+    this.oauth2Client.setCredentials(tokens);
+    this.reconsentReason = null;
+
+    await this.tokenStore.save(tokens);
+
+    this.authorizedAt = new Date();
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) => waiter());
+  }
+
+  private prunePending(): void {
+    const now = Date.now();
+    for (const [state, pending] of this.pending) {
+      if (pending.expiresAt <= now) {
+        this.pending.delete(state);
+      }
+    }
+  }
+
+  private async persistTokens(tokens: OAuthTokens): Promise<void> {
+    // Refresh responses omit the refresh token, so keep the one already held
+    const refreshToken = tokens.refresh_token ?? this.oauth2Client?.credentials.refresh_token;
+    this.reconsentReason = null;
+    await this.tokenStore.save({ ...tokens, refresh_token: refreshToken });
   }
 }
\ No newline at end of file
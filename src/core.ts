@@ -0,0 +1,33 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { ServerCapabilities } from '@modelcontextprotocol/sdk/types.js';
+import { ToolContext, ToolRegistry } from './registry.js';
+import { mountPrompts } from './prompts.js';
+import { mountResources } from './resources.js';
+
+export const SERVER_INFO = {
+  name: 'google-home-mcp',
+  version: '0.1.0',
+};
+
+// Builds an MCP Server with every registered tool, the home:// resources and the prompts mounted. Transports decide
+// how many of these they need (one for stdio, one per connection for ws).
+// Extra capabilities are for features only some transports offer.
+export function createMcpServer(
+  registry: ToolRegistry,
+  context: ToolContext,
+  capabilities: ServerCapabilities = {}
+): Server {
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      resources: {},
+      prompts: {},
+      ...capabilities,
+      tools: {},
+    },
+  });
+
+  registry.mount(server, context);
+  mountResources(server, context);
+  mountPrompts(server, context);
+  return server;
+}
@@ -0,0 +1,148 @@
+import { isDeepStrictEqual } from 'util';
+import { CommandExecution, ExecuteCommandResult } from './commands.js';
+import { Device, DeviceBackend, DeviceState } from './types.js';
+
+// One observed difference between two reads of a device's state
+export interface StateChange {
+  device: string;
+  at: string;
+  changes: Record<string, { from: unknown; to: unknown }>;
+}
+
+interface CachedState {
+  state: DeviceState;
+  fetchedAt: number;
+}
+
+// Changes kept per backend; older ones are dropped first
+const MAX_CHANGES = 1000;
+
+export function diffStates(previous: DeviceState, next: DeviceState): StateChange['changes'] {
+  const changes: StateChange['changes'] = {};
+  for (const key of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+    if (!isDeepStrictEqual(previous[key], next[key])) {
+      changes[key] = { from: previous[key], to: next[key] };
+    }
+  }
+  return changes;
+}
+
+// Sits in front of a backend so repeated reads within the TTL don't go
+// upstream. Every upstream read is compared with the previous one, and the
+// differences are kept as a change log. Commands invalidate the devices they
+// touch, so the next read sees their effect.
+export class StateCache implements DeviceBackend {
+  private devices?: { list: Device[]; fetchedAt: number };
+  private states = new Map<string, CachedState>();
+  private changes: StateChange[] = [];
+  private cursors = new Map<string, number>();
+  private listeners = new Set<(change: StateChange) => void>();
+
+  constructor(
+    private inner: DeviceBackend,
+    private ttlMs: number
+  ) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get requiresAuth(): boolean {
+    return this.inner.requiresAuth;
+  }
+
+  async listDevices(): Promise<Device[]> {
+    if (!this.devices || !this.isFresh(this.devices.fetchedAt)) {
+      this.devices = { list: await this.inner.listDevices(), fetchedAt: Date.now() };
+    }
+    return structuredClone(this.devices.list);
+  }
+
+  async queryStates(deviceIds: string[]): Promise<Record<string, DeviceState>> {
+    const ids = [...new Set(deviceIds)];
+    const stale = ids.filter((id) => !this.isFresh(this.states.get(id)?.fetchedAt));
+    if (stale.length > 0) {
+      const fetched = await this.inner.queryStates(stale);
+      const fetchedAt = Date.now();
+      for (const id of stale) {
+        if (fetched[id]) {
+          this.record(id, fetched[id], fetchedAt);
+        } else {
+          this.states.delete(id);
+        }
+      }
+    }
+
+    const result: Record<string, DeviceState> = {};
+    for (const id of ids) {
+      const cached = this.states.get(id);
+      if (cached) {
+        result[id] = structuredClone(cached.state);
+      }
+    }
+    return result;
+  }
+
+  async execute(deviceIds: string[], execution: CommandExecution): Promise<ExecuteCommandResult[]> {
+    try {
+      return await this.inner.execute(deviceIds, execution);
+    } finally {
+      this.invalidate(deviceIds);
+    }
+  }
+
+  // Forces the next read of these devices (or of everything) upstream. The
+  // cached state stays as the baseline for change detection.
+  invalidate(deviceIds?: string[]): void {
+    if (!deviceIds) {
+      this.devices = undefined;
+    }
+    for (const [id, cached] of this.states) {
+      if (!deviceIds || deviceIds.includes(id)) {
+        cached.fetchedAt = 0;
+      }
+    }
+  }
+
+  // Recorded changes after `since` (epoch ms), oldest first
+  changesSince(since: number, deviceIds?: string[]): StateChange[] {
+    return this.changes
+      .filter((change) => Date.parse(change.at) > since && (!deviceIds || deviceIds.includes(change.device)))
+      .map((change) => structuredClone(change));
+  }
+
+  // Called for every change as it is detected. Returns an unsubscribe function.
+  onChange(listener: (change: StateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  // Where a reader (an API key, or the local caller) last looked at the change log
+  cursor(reader: string): number | undefined {
+    return this.cursors.get(reader);
+  }
+
+  setCursor(reader: string, at: number): void {
+    this.cursors.set(reader, at);
+  }
+
+  private record(id: string, state: DeviceState, fetchedAt: number): void {
+    const previous = this.states.get(id)?.state;
+    if (previous) {
+      const changes = diffStates(previous, state);
+      if (Object.keys(changes).length > 0) {
+        const change: StateChange = { device: id, at: new Date(fetchedAt).toISOString(), changes };
+        this.changes.push(change);
+        this.changes.splice(0, this.changes.length - MAX_CHANGES);
+        for (const listener of this.listeners) {
+          listener(structuredClone(change));
+        }
+      }
+    }
+    this.states.set(id, { state, fetchedAt });
+  }
+
+  private isFresh(fetchedAt: number | undefined): boolean {
+    return fetchedAt !== undefined && fetchedAt > 0 && Date.now() - fetchedAt < this.ttlMs;
+  }
+}
@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { DeviceState } from './types.js';
+
+export interface CommandSpec {
+  trait: string;
+  params: z.ZodTypeAny;
+}
+
+export const COMMANDS: Record<string, CommandSpec> = {
+  'action.devices.commands.OnOff': {
+    trait: 'action.devices.traits.OnOff',
+    params: z.object({ on: z.boolean() }),
+  },
+  'action.devices.commands.BrightnessAbsolute': {
+    trait: 'action.devices.traits.Brightness',
+    params: z.object({ brightness: z.number().int().min(0).max(100) }),
+  },
+  'action.devices.commands.ThermostatTemperatureSetpoint': {
+    trait: 'action.devices.traits.TemperatureSetting',
+    params: z.object({ thermostatTemperatureSetpoint: z.number() }),
+  },
+  'action.devices.commands.ThermostatSetMode': {
+    trait: 'action.devices.traits.TemperatureSetting',
+    params: z.object({ thermostatMode: z.string() }),
+  },
+  'action.devices.commands.ColorAbsolute': {
+    trait: 'action.devices.traits.ColorSetting',
+    params: z.object({
+      color: z
+        .object({
+          name: z.string().optional(),
+          spectrumRGB: z.number().int().min(0).max(0xffffff).optional(),
+          temperature: z.number().int().positive().optional(),
+        })
+        .refine((color) => color.spectrumRGB !== undefined || color.temperature !== undefined, {
+          message: 'color needs spectrumRGB or temperature',
+        }),
+    }),
+  },
+  'action.devices.commands.OpenClose': {
+    trait: 'action.devices.traits.OpenClose',
+    params: z.object({ openPercent: z.number().min(0).max(100) }),
+  },
+  'action.devices.commands.LockUnlock': {
+    trait: 'action.devices.traits.LockUnlock',
+    params: z.object({ lock: z.boolean() }),
+  },
+};
+
+export interface CommandExecution {
+  command: string;
+  params: Record<string, unknown>;
+}
+
+export type ExecuteStatus = 'SUCCESS' | 'PENDING' | 'OFFLINE' | 'EXCEPTIONS' | 'ERROR';
+
+// One entry of an EXECUTE response payload.commands array
+export interface ExecuteCommandResult {
+  ids: string[];
+  status: ExecuteStatus;
+  states?: DeviceState;
+  errorCode?: string;
+  debugString?: string;
+}
+
+export interface ExecuteResponse {
+  requestId: string;
+  payload: {
+    commands: ExecuteCommandResult[];
+  };
+}
+
+export function getCommandSpec(command: string): CommandSpec {
+  const spec = COMMANDS[command];
+  if (!spec) {
+    throw new Error(`Unsupported command: ${command}. Supported commands: ${Object.keys(COMMANDS).join(', ')}`);
+  }
+  return spec;
+}
+
+// Validates params against the command's schema and returns a normalized execution
+export function parseExecution(command: string, params: unknown): CommandExecution {
+  const spec = getCommandSpec(command);
+  const result = spec.params.safeParse(params ?? {});
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => `${issue.path.join('.') || 'params'}: ${issue.message}`);
+    throw new Error(`Invalid params for ${command}: ${issues.join('; ')}`);
+  }
+  return { command, params: result.data };
+}
+
+// Returns the state a device would have after the command is applied
+export function applyCommand(state: DeviceState, { command, params }: CommandExecution): DeviceState {
+  switch (command) {
+    case 'action.devices.commands.OnOff':
+      return { ...state, on: params.on };
+    case 'action.devices.commands.BrightnessAbsolute':
+      return { ...state, brightness: params.brightness };
+    case 'action.devices.commands.ThermostatTemperatureSetpoint':
+      return { ...state, thermostatTemperatureSetpoint: params.thermostatTemperatureSetpoint };
+    case 'action.devices.commands.ThermostatSetMode':
+      return { ...state, thermostatMode: params.thermostatMode };
+    case 'action.devices.commands.ColorAbsolute': {
+      const { name, spectrumRGB, temperature } = params.color as { name?: string; spectrumRGB?: number; temperature?: number };
+      return {
+        ...state,
+        color: spectrumRGB !== undefined ? { name, spectrumRgb: spectrumRGB } : { name, temperatureK: temperature },
+      };
+    }
+    case 'action.devices.commands.OpenClose':
+      return { ...state, openPercent: params.openPercent };
+    case 'action.devices.commands.LockUnlock':
+      return { ...state, isLocked: params.lock, isJammed: false };
+    default:
+      throw new Error(`Unsupported command: ${command}`);
+  }
+}
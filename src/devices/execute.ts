@@ -0,0 +1,98 @@
+import { randomUUID } from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import { applyCommand, CommandExecution, ExecuteCommandResult, ExecuteResponse, getCommandSpec } from './commands.js';
+import { Device, DeviceBackend, DeviceState } from './types.js';
+
+// What a command would do to one device: the state keys it sets, now and
+// after. Devices that can't take the command carry the error EXECUTE would report.
+export interface PlannedChange {
+  id: string;
+  status: 'PLANNED' | 'UNCHANGED' | 'OFFLINE' | 'ERROR';
+  current?: DeviceState;
+  target?: DeviceState;
+  errorCode?: string;
+  debugString?: string;
+}
+
+// Checks a single device can take the command. Returns a failed result, or
+// null when the device should be sent the command.
+export function checkDevice(device: Device | undefined, id: string, execution: CommandExecution): ExecuteCommandResult | null {
+  if (!device) {
+    return { ids: [id], status: 'ERROR', errorCode: 'deviceNotFound' };
+  }
+  if (!device.online) {
+    return { ids: [id], status: 'OFFLINE', errorCode: 'deviceOffline' };
+  }
+
+  const { trait } = getCommandSpec(execution.command);
+  if (!device.traits.includes(trait)) {
+    return {
+      ids: [id],
+      status: 'ERROR',
+      errorCode: 'functionNotSupported',
+      debugString: `${device.name} does not support ${trait}`,
+    };
+  }
+  return null;
+}
+
+export async function executeCommand(
+  backend: DeviceBackend,
+  deviceIds: string[],
+  execution: CommandExecution
+): Promise<ExecuteResponse> {
+  const known = new Map((await backend.listDevices()).map((device) => [device.id, device]));
+  const results = new Map<string, ExecuteCommandResult>();
+  const targets: string[] = [];
+
+  for (const id of new Set(deviceIds)) {
+    const failure = checkDevice(known.get(id), id, execution);
+    if (failure) {
+      results.set(id, failure);
+    } else {
+      targets.push(id);
+    }
+  }
+
+  if (targets.length > 0) {
+    for (const result of await backend.execute(targets, execution)) {
+      for (const id of result.ids) {
+        results.set(id, { ...result, ids: [id] });
+      }
+    }
+  }
+
+  return {
+    requestId: randomUUID(),
+    payload: {
+      commands: [...new Set(deviceIds)].map(
+        (id) => results.get(id) ?? { ids: [id], status: 'ERROR', errorCode: 'transientError' }
+      ),
+    },
+  };
+}
+
+// Dry run of executeCommand: the same per-device checks, with the target
+// state computed from the current one instead of sending anything
+export async function planCommand(
+  backend: DeviceBackend,
+  deviceIds: string[],
+  execution: CommandExecution
+): Promise<PlannedChange[]> {
+  const known = new Map((await backend.listDevices()).map((device) => [device.id, device]));
+  const ids = [...new Set(deviceIds)];
+  const states = await backend.queryStates(ids.filter((id) => known.has(id)));
+  const keys = Object.keys(applyCommand({}, execution));
+  const pick = (state: DeviceState) => Object.fromEntries(keys.map((key) => [key, state[key]]));
+
+  return ids.map((id): PlannedChange => {
+    const failure = checkDevice(known.get(id), id, execution);
+    if (failure) {
+      const { status, errorCode, debugString } = failure;
+      return { id, status: status === 'OFFLINE' ? 'OFFLINE' : 'ERROR', errorCode, debugString };
+    }
+    const current = pick(states[id] ?? {});
+    const target = pick(applyCommand(states[id] ?? {}, execution));
+    return { id, status: isDeepStrictEqual(current, target) ? 'UNCHANGED' : 'PLANNED', current, target };
+  });
+}
@@ -0,0 +1,68 @@
+import { promises as fs } from 'fs';
+import { applyCommand, CommandExecution, ExecuteCommandResult } from './commands.js';
+import { defaultFixture } from './fixture.js';
+import { Device, DeviceBackend, DeviceFixture, DeviceState } from './types.js';
+
+// In-memory backend for offline development and CI. State changes live only
+// for the lifetime of the process; the fixture file is never written back.
+export class FakeBackend implements DeviceBackend {
+  readonly name = 'fake';
+  readonly requiresAuth = false;
+
+  private devices = new Map<string, Device>();
+  private states = new Map<string, DeviceState>();
+  private loaded: Promise<void> | null = null;
+
+  constructor(private fixturePath?: string) {}
+
+  async listDevices(): Promise<Device[]> {
+    await this.load();
+    return [...this.devices.values()].map((device) => structuredClone(device));
+  }
+
+  async queryStates(deviceIds: string[]): Promise<Record<string, DeviceState>> {
+    await this.load();
+    const states: Record<string, DeviceState> = {};
+    for (const id of deviceIds) {
+      const state = this.states.get(id);
+      if (state) {
+        states[id] = structuredClone(state);
+      }
+    }
+    return states;
+  }
+
+  async execute(deviceIds: string[], execution: CommandExecution): Promise<ExecuteCommandResult[]> {
+    await this.load();
+    return deviceIds.map((id) => {
+      const state = applyCommand(this.states.get(id) ?? {}, execution);
+      this.states.set(id, state);
+      return { ids: [id], status: 'SUCCESS', states: { online: true, ...structuredClone(state) } };
+    });
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readFixture().then((fixture) => {
+        for (const device of fixture.devices) {
+          this.devices.set(device.id, structuredClone(device));
+          this.states.set(device.id, structuredClone(fixture.states?.[device.id] ?? {}));
+        }
+      });
+    }
+    return this.loaded;
+  }
+
+  private async readFixture(): Promise<DeviceFixture> {
+    if (!this.fixturePath) {
+      return defaultFixture;
+    }
+
+    const content = await fs.readFile(this.fixturePath, 'utf-8');
+    const fixture = JSON.parse(content) as DeviceFixture;
+    if (!Array.isArray(fixture.devices)) {
+      throw new Error(`Device fixture ${this.fixturePath} must contain a "devices" array`);
+    }
+    return fixture;
+  }
+}
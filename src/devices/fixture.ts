@@ -0,0 +1,105 @@
+import { DeviceFixture } from './types.js';
+
+// Default home used by the fake backend when no FAKE_DEVICES_FILE is given.
+export const defaultFixture: DeviceFixture = {
+  devices: [
+    {
+      id: 'light-kitchen',
+      name: 'Kitchen Lights',
+      nicknames: ['kitchen ceiling'],
+      room: 'Kitchen',
+      structure: 'Home',
+      type: 'action.devices.types.LIGHT',
+      traits: ['action.devices.traits.OnOff', 'action.devices.traits.Brightness', 'action.devices.traits.ColorSetting'],
+      online: true,
+      attributes: {
+        colorModel: 'rgb',
+        colorTemperatureRange: { temperatureMinK: 2000, temperatureMaxK: 6500 },
+      },
+    },
+    {
+      id: 'lamp-living-room',
+      name: 'Living Room Lamp',
+      nicknames: ['reading lamp'],
+      room: 'Living Room',
+      structure: 'Home',
+      type: 'action.devices.types.LIGHT',
+      traits: ['action.devices.traits.OnOff', 'action.devices.traits.Brightness'],
+      online: true,
+    },
+    {
+      id: 'lamp-bedroom',
+      name: 'Bedside Lamp',
+      room: 'Bedroom',
+      structure: 'Home',
+      type: 'action.devices.types.LIGHT',
+      traits: ['action.devices.traits.OnOff', 'action.devices.traits.Brightness'],
+      online: true,
+    },
+    {
+      id: 'thermostat-bedroom',
+      name: 'Bedroom Thermostat',
+      room: 'Bedroom',
+      structure: 'Home',
+      type: 'action.devices.types.THERMOSTAT',
+      traits: ['action.devices.traits.TemperatureSetting'],
+      online: true,
+      attributes: {
+        availableThermostatModes: ['off', 'heat', 'cool', 'heatcool', 'eco'],
+        thermostatTemperatureUnit: 'C',
+      },
+    },
+    {
+      id: 'lock-front-door',
+      name: 'Front Door',
+      nicknames: ['front door lock'],
+      room: 'Hallway',
+      structure: 'Home',
+      type: 'action.devices.types.LOCK',
+      traits: ['action.devices.traits.LockUnlock'],
+      online: true,
+    },
+    {
+      id: 'garage-door',
+      name: 'Garage Door',
+      room: 'Garage',
+      structure: 'Home',
+      type: 'action.devices.types.GARAGE',
+      traits: ['action.devices.traits.OpenClose'],
+      online: true,
+    },
+    {
+      id: 'light-porch',
+      name: 'Porch Light',
+      room: 'Outdoor',
+      structure: 'Home',
+      type: 'action.devices.types.LIGHT',
+      traits: ['action.devices.traits.OnOff'],
+      online: true,
+    },
+    {
+      id: 'plug-guest-room',
+      name: 'Guest Room Plug',
+      room: 'Guest Room',
+      structure: 'Home',
+      type: 'action.devices.types.OUTLET',
+      traits: ['action.devices.traits.OnOff'],
+      online: false,
+    },
+  ],
+  states: {
+    'light-kitchen': { on: true, brightness: 80, color: { temperatureK: 2700 } },
+    'lamp-living-room': { on: false, brightness: 50 },
+    'lamp-bedroom': { on: false, brightness: 30 },
+    'thermostat-bedroom': {
+      thermostatMode: 'heat',
+      thermostatTemperatureSetpoint: 20,
+      thermostatTemperatureAmbient: 19.5,
+      thermostatHumidityAmbient: 45,
+    },
+    'lock-front-door': { isLocked: true, isJammed: false },
+    'garage-door': { openPercent: 0 },
+    'light-porch': { on: false },
+    'plug-guest-room': { on: false },
+  },
+};
@@ -0,0 +1,163 @@
+import { randomUUID } from 'crypto';
+import { google, homegraph_v1 } from 'googleapis';
+import { loadServiceAccountClient } from '../auth.js';
+import { CommandExecution, ExecuteCommandResult } from './commands.js';
+import { Device, DeviceBackend, DeviceState } from './types.js';
+
+export interface HomeGraphOptions {
+  agentUserId?: string;
+  // Smart Home Action fulfillment URL. EXECUTE intents are sent here so the
+  // action controls the real devices; without it, commands fail.
+  fulfillmentUrl?: string;
+  fulfillmentToken?: string;
+  env?: NodeJS.ProcessEnv;
+}
+
+// HomeGraph backend for Smart Home Action providers. Calls are made with a
+// service account on behalf of the configured agentUserId, so no user OAuth
+// is involved.
+export class HomeGraphBackend implements DeviceBackend {
+  readonly name = 'homegraph';
+  readonly requiresAuth = false;
+
+  private client: Promise<homegraph_v1.Homegraph> | null = null;
+
+  constructor(private options: HomeGraphOptions = {}) {}
+
+  async listDevices(): Promise<Device[]> {
+    const homegraph = await this.getClient();
+    const response = await homegraph.devices.sync({
+      requestBody: { requestId: randomUUID(), agentUserId: this.getAgentUserId() },
+    });
+    const synced = response.data.payload?.devices ?? [];
+    const states = await this.queryStates(synced.map((device) => device.id ?? '').filter(Boolean));
+
+    return synced.map((device) => toDevice(device, states[device.id ?? '']));
+  }
+
+  async queryStates(deviceIds: string[]): Promise<Record<string, DeviceState>> {
+    if (deviceIds.length === 0) {
+      return {};
+    }
+
+    const homegraph = await this.getClient();
+    const response = await homegraph.devices.query({
+      requestBody: {
+        requestId: randomUUID(),
+        agentUserId: this.getAgentUserId(),
+        inputs: [{ payload: { devices: deviceIds.map((id) => ({ id })) } }],
+      },
+    });
+    return response.data.payload?.devices ?? {};
+  }
+
+  // HomeGraph only records state; the action's fulfillment is what reaches the
+  // devices. Reporting a new state without it would show changes that never happened.
+  async execute(deviceIds: string[], execution: CommandExecution): Promise<ExecuteCommandResult[]> {
+    if (!this.options.fulfillmentUrl) {
+      return deviceIds.map((id) => ({
+        ids: [id],
+        status: 'ERROR',
+        errorCode: 'actionNotAvailable',
+        debugString: 'No fulfillment URL configured. Set SMART_HOME_FULFILLMENT_URL to control devices.',
+      }));
+    }
+    return this.executeViaFulfillment(deviceIds, execution);
+  }
+
+  private async executeViaFulfillment(deviceIds: string[], execution: CommandExecution): Promise<ExecuteCommandResult[]> {
+    const response = await fetch(this.options.fulfillmentUrl!, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.fulfillmentToken ? { Authorization: `Bearer ${this.options.fulfillmentToken}` } : {}),
+      },
+      body: JSON.stringify({
+        requestId: randomUUID(),
+        inputs: [
+          {
+            intent: 'action.devices.EXECUTE',
+            payload: {
+              commands: [{ devices: deviceIds.map((id) => ({ id })), execution: [execution] }],
+            },
+          },
+        ],
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Fulfillment EXECUTE failed: ${response.status} ${response.statusText}`);
+    }
+
+    const body = (await response.json()) as { payload?: { commands?: ExecuteCommandResult[] } };
+    return this.reportStates(body.payload?.commands ?? []);
+  }
+
+  // Writes the states the fulfillment returned to HomeGraph, so queries see them
+  // without waiting for the action to report them. The commands already ran, so
+  // a failed report is noted on each device's result instead of failing them.
+  private async reportStates(commands: ExecuteCommandResult[]): Promise<ExecuteCommandResult[]> {
+    const states: Record<string, DeviceState> = {};
+    for (const result of commands) {
+      if (result.status === 'SUCCESS' && result.states) {
+        result.ids.forEach((id) => (states[id] = result.states!));
+      }
+    }
+    if (Object.keys(states).length === 0) {
+      return commands;
+    }
+
+    try {
+      const homegraph = await this.getClient();
+      await homegraph.devices.reportStateAndNotification({
+        requestBody: {
+          requestId: randomUUID(),
+          agentUserId: this.getAgentUserId(),
+          payload: { devices: { states } },
+        },
+      });
+      return commands;
+    } catch (error) {
+      const debugString = `New state not reported to HomeGraph: ${error instanceof Error ? error.message : error}`;
+      return commands.flatMap((result) =>
+        result.ids.some((id) => id in states)
+          ? result.ids.map((id) => ({ ...result, ids: [id], debugString }))
+          : [result]
+      );
+    }
+  }
+
+  private getAgentUserId(): string {
+    if (!this.options.agentUserId) {
+      throw new Error('HOMEGRAPH_AGENT_USER_ID is not set. Set it to the agentUserId your action reports devices for.');
+    }
+    return this.options.agentUserId;
+  }
+
+  private getClient(): Promise<homegraph_v1.Homegraph> {
+    if (!this.client) {
+      this.client = loadServiceAccountClient(this.options.env).then((auth) =>
+        google.homegraph({ version: 'v1', auth })
+      );
+      // Allow a retry after fixing the key instead of caching the failure
+      this.client.catch(() => {
+        this.client = null;
+      });
+    }
+    return this.client;
+  }
+}
+
+function toDevice(device: homegraph_v1.Schema$Device, state?: DeviceState): Device {
+  const names = device.name ?? {};
+  return {
+    id: device.id ?? '',
+    name: names.name ?? names.defaultNames?.[0] ?? device.id ?? '',
+    nicknames: names.nicknames ?? undefined,
+    room: device.roomHint ?? undefined,
+    structure: device.structureHint ?? undefined,
+    type: device.type ?? 'unknown',
+    traits: device.traits ?? [],
+    online: state?.online !== false,
+    attributes: device.attributes ?? undefined,
+  };
+}
@@ -0,0 +1,42 @@
+import { GoogleAuth } from '../auth.js';
+import { FakeBackend } from './fake.js';
+import { HomeGraphBackend } from './homegraph.js';
+import { SdmBackend } from './sdm.js';
+import { DeviceBackend } from './types.js';
+
+export * from './types.js';
+export * from './commands.js';
+export { diffStates, StateCache } from './cache.js';
+export type { StateChange } from './cache.js';
+export { executeCommand, planCommand } from './execute.js';
+export type { PlannedChange } from './execute.js';
+export { parseCommand } from './parser.js';
+export { filterDevices, queryDevices } from './query.js';
+export type { DeviceFilter, QueryDeviceResult } from './query.js';
+export type { ParseResult } from './parser.js';
+export { FakeBackend } from './fake.js';
+export { HomeGraphBackend } from './homegraph.js';
+export { SdmBackend } from './sdm.js';
+
+// DEVICE_BACKEND=fake serves devices from FAKE_DEVICES_FILE (or a built-in
+// sample home) without any Google account. DEVICE_BACKEND=homegraph uses a
+// service account instead of the user's OAuth token.
+export function createDeviceBackend(auth: GoogleAuth, env: NodeJS.ProcessEnv = process.env): DeviceBackend {
+  const kind = env.DEVICE_BACKEND || 'sdm';
+
+  switch (kind) {
+    case 'fake':
+      return new FakeBackend(env.FAKE_DEVICES_FILE);
+    case 'sdm':
+      return new SdmBackend(auth, env.SDM_PROJECT_ID);
+    case 'homegraph':
+      return new HomeGraphBackend({
+        agentUserId: env.HOMEGRAPH_AGENT_USER_ID,
+        fulfillmentUrl: env.SMART_HOME_FULFILLMENT_URL,
+        fulfillmentToken: env.SMART_HOME_FULFILLMENT_TOKEN,
+        env,
+      });
+    default:
+      throw new Error(`Unknown DEVICE_BACKEND: ${kind}`);
+  }
+}
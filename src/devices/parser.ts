@@ -0,0 +1,219 @@
+import { CommandExecution, getCommandSpec } from './commands.js';
+import { Device } from './types.js';
+
+export type ParseResult =
+  | { kind: 'command'; execution: CommandExecution; devices: Device[] }
+  | { kind: 'clarification'; message: string; candidates: Device[] };
+
+interface Intent {
+  target: string;
+  execution: CommandExecution;
+}
+
+// Words that describe a device type, so "kitchen lights" can mean every
+// light in the kitchen rather than a device literally named that.
+const TYPE_WORDS: Record<string, string[]> = {
+  'action.devices.types.LIGHT': ['light', 'lamp', 'bulb'],
+  'action.devices.types.THERMOSTAT': ['thermostat', 'heating', 'temperature'],
+  'action.devices.types.LOCK': ['lock', 'door'],
+  'action.devices.types.GARAGE': ['garage', 'door'],
+  'action.devices.types.DOOR': ['door'],
+  'action.devices.types.OUTLET': ['plug', 'outlet', 'socket'],
+  'action.devices.types.SWITCH': ['switch'],
+  'action.devices.types.FAN': ['fan'],
+  'action.devices.types.BLINDS': ['blind', 'shade'],
+  'action.devices.types.CURTAIN': ['curtain'],
+};
+
+const COLORS: Record<string, { spectrumRGB?: number; temperature?: number }> = {
+  red: { spectrumRGB: 0xff0000 },
+  green: { spectrumRGB: 0x00ff00 },
+  blue: { spectrumRGB: 0x0000ff },
+  yellow: { spectrumRGB: 0xffff00 },
+  orange: { spectrumRGB: 0xffa500 },
+  purple: { spectrumRGB: 0x800080 },
+  pink: { spectrumRGB: 0xffc0cb },
+  white: { temperature: 4000 },
+  'warm white': { temperature: 2700 },
+  'cool white': { temperature: 5000 },
+  daylight: { temperature: 6500 },
+};
+
+const FILLER_WORDS = new Set(['the', 'my', 'a', 'an', 'please', 'in', 'of']);
+const COLOR_PATTERN = Object.keys(COLORS).sort((a, b) => b.length - a.length).join('|');
+
+const PATTERNS: Array<[RegExp, (match: RegExpMatchArray) => Intent]> = [
+  [
+    /^(?:turn|switch)\s+(on|off)\s+(.+)$/,
+    (m) => ({ target: m[2], execution: { command: 'action.devices.commands.OnOff', params: { on: m[1] === 'on' } } }),
+  ],
+  [
+    /^(?:turn|switch)\s+(.+?)\s+(on|off)$/,
+    (m) => ({ target: m[1], execution: { command: 'action.devices.commands.OnOff', params: { on: m[2] === 'on' } } }),
+  ],
+  [
+    /^(lock|unlock)\s+(.+)$/,
+    (m) => ({ target: m[2], execution: { command: 'action.devices.commands.LockUnlock', params: { lock: m[1] === 'lock' } } }),
+  ],
+  [
+    /^(open|close|shut)\s+(.+?)(?:\s+to\s+(\d+)\s*(?:%|percent))?$/,
+    (m) => ({
+      target: m[2],
+      execution: {
+        command: 'action.devices.commands.OpenClose',
+        params: { openPercent: m[1] === 'open' ? Number(m[3] ?? 100) : 0 },
+      },
+    }),
+  ],
+  [
+    /^(?:dim|brighten|set)\s+(.+?)\s+(?:brightness\s+)?to\s+(\d+)\s*(?:%|percent)$/,
+    (m) => ({
+      target: m[1],
+      execution: { command: 'action.devices.commands.BrightnessAbsolute', params: { brightness: Number(m[2]) } },
+    }),
+  ],
+  [
+    /^(?:set|heat|cool)\s+(.+?)\s+(?:temperature\s+)?to\s+(-?\d+(?:\.\d+)?)\s*(?:°|degrees?)\s*(?:c|f|celsius|fahrenheit)?$/,
+    (m) => ({
+      target: m[1],
+      execution: {
+        command: 'action.devices.commands.ThermostatTemperatureSetpoint',
+        params: { thermostatTemperatureSetpoint: Number(m[2]) },
+      },
+    }),
+  ],
+  [
+    /^set\s+(.+?)\s+(?:to\s+(\w+)\s+mode|mode\s+to\s+(\w+))$/,
+    (m) => ({
+      target: m[1],
+      execution: { command: 'action.devices.commands.ThermostatSetMode', params: { thermostatMode: m[2] ?? m[3] } },
+    }),
+  ],
+  [
+    new RegExp(`^(?:set|turn|make)\\s+(.+?)\\s+(?:to\\s+)?(${COLOR_PATTERN})$`),
+    (m) => ({
+      target: m[1],
+      execution: { command: 'action.devices.commands.ColorAbsolute', params: { color: { name: m[2], ...COLORS[m[2]] } } },
+    }),
+  ],
+];
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}%°.\s-]/gu, ' ')
+    .replace(/\.$/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function singular(word: string): string {
+  return word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word;
+}
+
+function words(text: string): string[] {
+  return normalize(text)
+    .split(' ')
+    .filter((word) => word && !FILLER_WORDS.has(word))
+    .map(singular);
+}
+
+// Words from the device's own name, nicknames and room
+function nameWords(device: Device): Set<string> {
+  return new Set([device.name, ...(device.nicknames ?? []), device.room ?? ''].flatMap(words));
+}
+
+function deviceWords(device: Device): Set<string> {
+  return new Set([...nameWords(device), ...(TYPE_WORDS[device.type] ?? [])]);
+}
+
+function matchesType(device: Device, typeWords: string[]): boolean {
+  const known = TYPE_WORDS[device.type] ?? [];
+  return typeWords.every((word) => known.includes(word));
+}
+
+export function parseIntent(text: string): Intent {
+  const phrase = normalize(text);
+  for (const [pattern, build] of PATTERNS) {
+    const match = phrase.match(pattern);
+    if (match) {
+      return build(match);
+    }
+  }
+  throw new Error(
+    `Could not understand "${text}". Try phrases like "turn off the kitchen lights", ` +
+      '"set bedroom to 21 degrees" or "dim living room lamp to 30%".'
+  );
+}
+
+export function resolveTargets(target: string, devices: Device[], trait: string): ParseResult | Device[] {
+  const phrase = normalize(target);
+  const targetWords = words(target);
+  const wantsAll = /^all\b/.test(phrase) || /s$/.test(phrase.split(' ').pop() ?? '');
+  const phraseWords = targetWords.filter((word) => word !== 'all');
+  const phraseKey = phraseWords.join(' ');
+  const capable = devices.filter((device) => device.traits.includes(trait));
+
+  // 1. Exact device name or nickname
+  const named = devices.filter((device) =>
+    [device.name, ...(device.nicknames ?? [])].some((name) => words(name).join(' ') === phraseKey)
+  );
+  if (named.length === 1) {
+    return named;
+  }
+
+  // 2. A room, optionally followed by a device type ("kitchen lights")
+  const rooms = [...new Set(devices.map((device) => device.room).filter((room): room is string => !!room))];
+  for (const room of rooms.sort((a, b) => b.length - a.length)) {
+    const roomKey = words(room).join(' ');
+    if (phraseKey !== roomKey && !phraseKey.startsWith(`${roomKey} `)) {
+      continue;
+    }
+    const typeWords = phraseKey.slice(roomKey.length).trim().split(' ').filter(Boolean);
+    const inRoom = capable.filter((device) => device.room === room && matchesType(device, typeWords));
+    if (inRoom.length > 0) {
+      return inRoom;
+    }
+  }
+
+  // 3. Every word of the phrase appears in the device's name, nicknames or room.
+  // Type words only count when no name matches, so "the lamp" means the devices
+  // called lamp rather than every light, or for "all" ("all lights").
+  const pool = named.length > 1 ? named : devices;
+  const matching = (known: (device: Device) => Set<string>) =>
+    pool.filter((device) => phraseWords.length > 0 && phraseWords.every((word) => known(device).has(word)));
+  const byName = matching(nameWords);
+  const candidates = byName.length > 0 && !wantsAll ? byName : matching(deviceWords);
+  const capableCandidates = candidates.filter((device) => capable.includes(device));
+
+  if (candidates.length === 1) {
+    return candidates;
+  }
+  if (capableCandidates.length === 1) {
+    return capableCandidates;
+  }
+  if (capableCandidates.length > 1 && wantsAll) {
+    return capableCandidates;
+  }
+  if (candidates.length > 1) {
+    const options = capableCandidates.length > 0 ? capableCandidates : candidates;
+    return {
+      kind: 'clarification',
+      message: `"${target}" matches ${options.length} devices. Which one did you mean?`,
+      candidates: options,
+    };
+  }
+  throw new Error(`No device matches "${target}"`);
+}
+
+// Turns a phrase such as "dim living room lamp to 30%" into a trait command
+// resolved against the known devices. Never guesses between several matches.
+export function parseCommand(text: string, devices: Device[]): ParseResult {
+  const { target, execution } = parseIntent(text);
+  const { trait } = getCommandSpec(execution.command);
+  const resolved = resolveTargets(target, devices, trait);
+  if (!Array.isArray(resolved)) {
+    return resolved;
+  }
+  return { kind: 'command', execution, devices: resolved };
+}
@@ -0,0 +1,46 @@
+import { Device, DeviceBackend, DeviceState } from './types.js';
+
+export interface DeviceFilter {
+  room?: string;
+  type?: string;
+  trait?: string;
+  online?: boolean;
+}
+
+// One entry of a QUERY response payload.devices map
+export type QueryDeviceResult =
+  | ({ status: 'SUCCESS'; online: boolean } & DeviceState)
+  | { status: 'ERROR'; errorCode: string; debugString?: string };
+
+// Accepts either the short form ("light", "OnOff") or the full Google name
+function matchesName(value: string, expected: string, prefix: string): boolean {
+  const wanted = expected.toLowerCase();
+  const full = value.toLowerCase();
+  return full === wanted || full === `${prefix}.${wanted}`;
+}
+
+export function filterDevices(devices: Device[], filter: DeviceFilter): Device[] {
+  return devices.filter(
+    (device) =>
+      (filter.room === undefined || device.room?.toLowerCase() === filter.room.toLowerCase()) &&
+      (filter.type === undefined || matchesName(device.type, filter.type, 'action.devices.types')) &&
+      (filter.trait === undefined ||
+        device.traits.some((trait) => matchesName(trait, filter.trait!, 'action.devices.traits'))) &&
+      (filter.online === undefined || device.online === filter.online)
+  );
+}
+
+export async function queryDevices(backend: DeviceBackend, deviceIds: string[]): Promise<Record<string, QueryDeviceResult>> {
+  const known = new Map((await backend.listDevices()).map((device) => [device.id, device]));
+  const ids = [...new Set(deviceIds)];
+  const states = await backend.queryStates(ids.filter((id) => known.has(id)));
+
+  const results: Record<string, QueryDeviceResult> = {};
+  for (const id of ids) {
+    const device = known.get(id);
+    results[id] = device
+      ? { status: 'SUCCESS', ...states[id], online: device.online }
+      : { status: 'ERROR', errorCode: 'deviceNotFound' };
+  }
+  return results;
+}
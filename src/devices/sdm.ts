@@ -0,0 +1,170 @@
+import { google, smartdevicemanagement_v1 } from 'googleapis';
+import { GoogleAuth } from '../auth.js';
+import { CommandExecution, ExecuteCommandResult } from './commands.js';
+import { Device, DeviceBackend, DeviceState } from './types.js';
+
+type SdmDevice = smartdevicemanagement_v1.Schema$GoogleHomeEnterpriseSdmV1Device;
+type SdmCommand = smartdevicemanagement_v1.Schema$GoogleHomeEnterpriseSdmV1ExecuteDeviceCommandRequest;
+
+const SDM_TYPES: Record<string, string> = {
+  'sdm.devices.types.THERMOSTAT': 'action.devices.types.THERMOSTAT',
+  'sdm.devices.types.CAMERA': 'action.devices.types.CAMERA',
+  'sdm.devices.types.DOORBELL': 'action.devices.types.DOORBELL',
+  'sdm.devices.types.DISPLAY': 'action.devices.types.DISPLAY',
+};
+
+const SDM_TRAITS: Record<string, string> = {
+  'sdm.devices.traits.ThermostatMode': 'action.devices.traits.TemperatureSetting',
+  'sdm.devices.traits.ThermostatTemperatureSetpoint': 'action.devices.traits.TemperatureSetting',
+  'sdm.devices.traits.ThermostatEco': 'action.devices.traits.TemperatureSetting',
+  'sdm.devices.traits.Fan': 'action.devices.traits.FanSpeed',
+  'sdm.devices.traits.CameraLiveStream': 'action.devices.traits.CameraStream',
+};
+
+// Device Access (Smart Device Management) backend. Uses the user's OAuth
+// token and the Device Access project id from SDM_PROJECT_ID.
+export class SdmBackend implements DeviceBackend {
+  readonly name = 'sdm';
+  readonly requiresAuth = true;
+
+  private client: smartdevicemanagement_v1.Smartdevicemanagement | null = null;
+
+  constructor(private auth: GoogleAuth, private projectId?: string) {}
+
+  async listDevices(): Promise<Device[]> {
+    const response = await this.getClient().enterprises.devices.list({
+      parent: `enterprises/${this.getProjectId()}`,
+    });
+    return (response.data.devices ?? []).map(toDevice);
+  }
+
+  async queryStates(deviceIds: string[]): Promise<Record<string, DeviceState>> {
+    const response = await this.getClient().enterprises.devices.list({
+      parent: `enterprises/${this.getProjectId()}`,
+    });
+
+    const states: Record<string, DeviceState> = {};
+    for (const sdm of response.data.devices ?? []) {
+      const device = toDevice(sdm);
+      if (deviceIds.includes(device.id)) {
+        states[device.id] = toState(sdm);
+      }
+    }
+    return states;
+  }
+
+  async execute(deviceIds: string[], execution: CommandExecution): Promise<ExecuteCommandResult[]> {
+    return Promise.all(deviceIds.map((id) => this.executeOne(id, execution)));
+  }
+
+  private async executeOne(id: string, execution: CommandExecution): Promise<ExecuteCommandResult> {
+    const name = `enterprises/${this.getProjectId()}/devices/${id}`;
+
+    try {
+      const device = await this.getClient().enterprises.devices.get({ name });
+      const mode: string | undefined = device.data.traits?.['sdm.devices.traits.ThermostatMode']?.mode;
+      const sdmCommand = toSdmCommand(execution, mode);
+      if ('errorCode' in sdmCommand) {
+        return { ids: [id], status: 'ERROR', errorCode: sdmCommand.errorCode };
+      }
+
+      await this.getClient().enterprises.devices.executeCommand({ name, requestBody: sdmCommand });
+      return { ids: [id], status: 'SUCCESS' };
+    } catch (error) {
+      const debugString = error instanceof Error ? error.message : String(error);
+      return { ids: [id], status: 'ERROR', errorCode: 'transientError', debugString };
+    }
+  }
+
+  private getProjectId(): string {
+    if (!this.projectId) {
+      throw new Error('SDM_PROJECT_ID is not set. Create a Device Access project and set its id.');
+    }
+    return this.projectId;
+  }
+
+  private getClient(): smartdevicemanagement_v1.Smartdevicemanagement {
+    if (!this.client) {
+      this.client = google.smartdevicemanagement({
+        version: 'v1',
+        auth: this.auth.getClient(),
+      });
+    }
+    return this.client;
+  }
+}
+
+function toDevice(sdm: SdmDevice): Device {
+  const traits = sdm.traits ?? {};
+  const id = sdm.name?.split('/').pop() ?? '';
+  const room = sdm.parentRelations?.find((relation) => relation.displayName)?.displayName ?? undefined;
+  const customName: string | undefined = traits['sdm.devices.traits.Info']?.customName;
+  const type = SDM_TYPES[sdm.type ?? ''] ?? sdm.type ?? 'unknown';
+
+  return {
+    id,
+    name: customName || room || id,
+    room,
+    type,
+    traits: [...new Set(Object.keys(traits).map((trait) => SDM_TRAITS[trait]).filter(Boolean))],
+    online: traits['sdm.devices.traits.Connectivity']?.status !== 'OFFLINE',
+    attributes: { sdmTraits: traits },
+  };
+}
+
+function toState(sdm: SdmDevice): DeviceState {
+  const traits = sdm.traits ?? {};
+  const state: DeviceState = {};
+
+  const mode: string | undefined = traits['sdm.devices.traits.ThermostatMode']?.mode;
+  if (mode) {
+    state.thermostatMode = mode.toLowerCase();
+  }
+  const setpoint = traits['sdm.devices.traits.ThermostatTemperatureSetpoint'];
+  if (setpoint?.heatCelsius !== undefined && setpoint?.coolCelsius !== undefined) {
+    state.thermostatTemperatureSetpointLow = setpoint.heatCelsius;
+    state.thermostatTemperatureSetpointHigh = setpoint.coolCelsius;
+  } else if (setpoint?.heatCelsius !== undefined || setpoint?.coolCelsius !== undefined) {
+    state.thermostatTemperatureSetpoint = setpoint.heatCelsius ?? setpoint.coolCelsius;
+  }
+  const ambient = traits['sdm.devices.traits.Temperature']?.ambientTemperatureCelsius;
+  if (ambient !== undefined) {
+    state.thermostatTemperatureAmbient = ambient;
+  }
+  const humidity = traits['sdm.devices.traits.Humidity']?.ambientHumidityPercent;
+  if (humidity !== undefined) {
+    state.thermostatHumidityAmbient = humidity;
+  }
+  const hvac: string | undefined = traits['sdm.devices.traits.ThermostatHvac']?.status;
+  if (hvac) {
+    state.activeThermostatMode = hvac === 'OFF' ? 'none' : hvac === 'HEATING' ? 'heat' : 'cool';
+  }
+  return state;
+}
+
+// SDM only exposes thermostat commands; everything else is reported as unsupported
+function toSdmCommand({ command, params }: CommandExecution, mode?: string): SdmCommand | { errorCode: string } {
+  switch (command) {
+    case 'action.devices.commands.ThermostatSetMode':
+      return {
+        command: 'sdm.devices.commands.ThermostatMode.SetMode',
+        params: { mode: String(params.thermostatMode).toUpperCase() },
+      };
+    case 'action.devices.commands.ThermostatTemperatureSetpoint':
+      if (mode === 'HEAT') {
+        return {
+          command: 'sdm.devices.commands.ThermostatTemperatureSetpoint.SetHeat',
+          params: { heatCelsius: params.thermostatTemperatureSetpoint },
+        };
+      }
+      if (mode === 'COOL') {
+        return {
+          command: 'sdm.devices.commands.ThermostatTemperatureSetpoint.SetCool',
+          params: { coolCelsius: params.thermostatTemperatureSetpoint },
+        };
+      }
+      return { errorCode: mode === 'OFF' ? 'inOffMode' : 'notSupported' };
+    default:
+      return { errorCode: 'functionNotSupported' };
+  }
+}
@@ -0,0 +1,33 @@
+import { CommandExecution, ExecuteCommandResult } from './commands.js';
+
+export interface Device {
+  id: string;
+  name: string;
+  nicknames?: string[];
+  room?: string;
+  structure?: string;
+  // Google smart-home device type, e.g. action.devices.types.LIGHT
+  type: string;
+  // Google smart-home traits, e.g. action.devices.traits.OnOff
+  traits: string[];
+  online: boolean;
+  attributes?: Record<string, unknown>;
+}
+
+export type DeviceState = Record<string, unknown>;
+
+export interface DeviceFixture {
+  devices: Device[];
+  states?: Record<string, DeviceState>;
+}
+
+export interface DeviceBackend {
+  readonly name: string;
+  // Whether calls need a Google OAuth token (false for the offline fake)
+  readonly requiresAuth: boolean;
+  listDevices(): Promise<Device[]>;
+  // Current state of each known device, keyed by id. Unknown ids are omitted.
+  queryStates(deviceIds: string[]): Promise<Record<string, DeviceState>>;
+  // Called only with online devices that declare the command's trait
+  execute(deviceIds: string[], execution: CommandExecution): Promise<ExecuteCommandResult[]>;
+}
@@ -0,0 +1,79 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { z } from 'zod';
+
+// Writes to a temp file and renames it over the target, so readers never see
+// a partial file. The temp name is unique per write, so concurrent writes of
+// the same file each rename their own copy. Mode 0600 since these files hold
+// secrets or user data.
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tmpPath, content, { mode: 0o600 });
+  await fs.rename(tmpPath, filePath);
+}
+
+export async function readFileIfExists(filePath: string): Promise<string | null> {
+  try {
+    return await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return null;
+    }
+    throw error;
+  }
+}
+
+// Group and alias names are case-insensitive
+export const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export interface ListFileOptions<T> {
+  // Top-level key holding the list, e.g. "scenes"; also names the file in errors
+  key: string;
+  item: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // YAML instead of JSON
+  yaml?: boolean;
+}
+
+// A list of records (scenes, groups, aliases) under one top-level key of a
+// JSON or YAML file. Reads go to the file every time so hand edits apply at
+// once. Updates are chained, so each one reads what the previous one wrote
+// and concurrent updates aren't lost.
+export class ListFile<T> {
+  private updates: Promise<unknown> = Promise.resolve();
+
+  constructor(readonly filePath: string, private options: ListFileOptions<T>) {}
+
+  async read(): Promise<T[]> {
+    const content = await readFileIfExists(this.filePath);
+    if (!content) {
+      return [];
+    }
+
+    const { key, item, yaml } = this.options;
+    const raw = yaml ? YAML.parse(content) : JSON.parse(content);
+    const parsed = z.object({ [key]: z.array(item).default([]) }).safeParse(raw ?? {});
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(`Invalid ${key} file ${this.filePath}: ${issue.path.join('.')}: ${issue.message}`);
+    }
+    return parsed.data[key];
+  }
+
+  // Writes the list change returns for the current one. change may throw to
+  // leave the file as it is.
+  update(change: (items: T[]) => T[]): Promise<T[]> {
+    const updated = this.updates
+      .catch(() => {})
+      .then(async () => {
+        const items = change(await this.read());
+        const file = { [this.options.key]: items };
+        await writeFileAtomic(this.filePath, this.options.yaml ? YAML.stringify(file) : JSON.stringify(file, null, 2));
+        return items;
+      });
+    this.updates = updated;
+    return updated;
+  }
+}
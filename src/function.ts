@@ -1,290 +1,84 @@
 import { Request, Response } from '@google-cloud/functions-framework';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
-import { google, homegraph_v1 } from 'googleapis';
-import { GoogleAuth } from './auth.js';
+import { AccountDirectory, Caller } from './accounts.js';
+import { AuditEntry } from './audit.js';
+import { createMcpServer } from './core.js';
+import { hasScope } from './keys.js';
+import { ToolRegistry } from './registry.js';
+import { AuditQueryArgs, AuditQuerySchema, queryAuditLog } from './tools/audit.js';
+import { createToolRegistry } from './tools/index.js';
+import { dispatchJsonRpc, JsonRpcReply } from './transports/dispatch.js';
+import { StreamableHttpEndpoint } from './transports/http.js';
 import * as functions from '@google-cloud/functions-framework';
 
-const ExecuteCommandSchema = z.object({
-  command: z.string().describe('The command to execute on Google Home devices'),
-  devices: z.array(z.string()).optional().describe('Optional list of device IDs to target'),
-});
-
-const QueryDevicesSchema = z.object({
-  devices: z.array(z.string()).optional().describe('Optional list of device IDs to query'),
-});
-
-const GetDeviceStatesSchema = z.object({
-  deviceIds: z.array(z.string()).describe('List of device IDs to get states for'),
-});
-
 class GoogleHomeMCPFunction {
-  private auth: GoogleAuth;
-  private homegraph: homegraph_v1.Homegraph | null = null;
-  private server: Server;
+  private registry: ToolRegistry;
+  private accounts: Promise<AccountDirectory>;
 
   constructor() {
-    this.auth = new GoogleAuth();
-    this.server = this.createServer();
-    this.initialize();
+    this.registry = createToolRegistry();
+    this.accounts = this.initialize();
+    // A failed start is logged once here; requests then get a 503
+    this.accounts.catch((error) => console.error('Failed to initialize:', error));
   }
 
-  private async initialize() {
-    try {
-      await this.auth.initialize();
-    } catch (error) {
-      console.error('Warning: Could not initialize Google Auth. You will need to authenticate.');
-    }
+  private async initialize(): Promise<AccountDirectory> {
+    const accounts = await AccountDirectory.fromEnv();
+    await accounts.assertKeysConfigured();
+    await accounts.initialize();
+    return accounts;
   }
 
-  private createServer(): Server {
-    const server = new Server(
-      {
-        name: 'google-home-mcp',
-        version: '0.1.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
-      }
-    );
-
-    this.setupHandlers(server);
-    return server;
+  async authenticate(authorization?: string): Promise<Caller | null> {
+    return (await this.accounts).authenticate(authorization, 'function');
   }
 
-  private setupHandlers(server: Server): void {
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'execute_command',
-            description: 'Execute a command on Google Home devices',
-            inputSchema: ExecuteCommandSchema,
-          },
-          {
-            name: 'query_devices',
-            description: 'Query the state of Google Home devices',
-            inputSchema: QueryDevicesSchema,
-          },
-          {
-            name: 'get_device_states',
-            description: 'Get detailed states of specific devices',
-            inputSchema: GetDeviceStatesSchema,
-          },
-          {
-            name: 'list_devices',
-            description: 'List all available Google Home devices',
-            inputSchema: z.object({}),
-          },
-          {
-            name: 'get_auth_url',
-            description: 'Get the Google OAuth URL for authentication',
-            inputSchema: z.object({}),
-          },
-          {
-            name: 'authenticate',
-            description: 'Authenticate with Google using an authorization code',
-            inputSchema: z.object({
-              code: z.string().describe('The authorization code from Google OAuth'),
-            }),
-          },
-        ],
-      };
-    });
-
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case 'get_auth_url': {
-            if (!this.auth.isAuthenticated()) {
-              const authUrl = this.auth.getAuthUrl();
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `Please visit this URL to authorize the application:\n${authUrl}`,
-                  },
-                ],
-              };
-            }
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Already authenticated with Google.',
-                },
-              ],
-            };
-          }
-
-          case 'authenticate': {
-            const { code } = z.object({ code: z.string() }).parse(args);
-            await this.auth.getTokenFromCode(code);
-            this.homegraph = google.homegraph({
-              version: 'v1',
-              auth: this.auth.getClient(),
-            });
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Successfully authenticated with Google!',
-                },
-              ],
-            };
-          }
-
-          case 'execute_command': {
-            if (!this.auth.isAuthenticated()) {
-              throw new Error('Not authenticated. Please authenticate first.');
-            }
-            
-            const { command, devices } = ExecuteCommandSchema.parse(args);
-            
-            if (!this.homegraph) {
-              this.homegraph = google.homegraph({
-                version: 'v1',
-                auth: this.auth.getClient(),
-              });
-            }
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Command "${command}" would be executed on devices: ${devices?.join(', ') || 'all devices'}`,
-                },
-              ],
-            };
-          }
-
-          case 'query_devices': {
-            if (!this.auth.isAuthenticated()) {
-              throw new Error('Not authenticated. Please authenticate first.');
-            }
-
-            const { devices } = QueryDevicesSchema.parse(args);
-            
-            if (!this.homegraph) {
-              this.homegraph = google.homegraph({
-                version: 'v1',
-                auth: this.auth.getClient(),
-              });
-            }
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Querying devices: ${devices?.join(', ') || 'all devices'}`,
-                },
-              ],
-            };
-          }
-
-          case 'get_device_states': {
-            if (!this.auth.isAuthenticated()) {
-              throw new Error('Not authenticated. Please authenticate first.');
-            }
-
-            const { deviceIds } = GetDeviceStatesSchema.parse(args);
-            
-            if (!this.homegraph) {
-              this.homegraph = google.homegraph({
-                version: 'v1',
-                auth: this.auth.getClient(),
-              });
-            }
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Getting states for devices: ${deviceIds.join(', ')}`,
-                },
-              ],
-            };
-          }
-
-          case 'list_devices': {
-            if (!this.auth.isAuthenticated()) {
-              throw new Error('Not authenticated. Please authenticate first.');
-            }
-
-            if (!this.homegraph) {
-              this.homegraph = google.homegraph({
-                version: 'v1',
-                auth: this.auth.getClient(),
-              });
-            }
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Device listing would be implemented here',
-                },
-              ],
-            };
-          }
+  async queryAudit(caller: Caller, query: AuditQueryArgs): Promise<AuditEntry[]> {
+    return queryAuditLog((await this.accounts).audit, caller, query);
+  }
 
-          default:
-            throw new Error(`Unknown tool: ${name}`);
-        }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${errorMessage}`,
-            },
-          ],
-        };
-      }
-    });
+  createServer(caller: Caller): Server {
+    return createMcpServer(this.registry, caller.account.createContext(caller));
   }
 
-  async handleRequest(request: any): Promise<any> {
-    // Handle MCP protocol requests
-    if (request.method === 'tools/list') {
-      return this.server.listTools();
-    } else if (request.method === 'tools/call') {
-      return this.server.callTool(request.params);
-    }
-    
-    throw new Error(`Unknown method: ${request.method}`);
+  // Plain JSON-RPC 2.0 over POST, single or batched. Each request gets its
+  // own server so concurrent invocations don't share a connection.
+  async handleRequest(caller: Caller, payload: unknown): Promise<JsonRpcReply | JsonRpcReply[] | undefined> {
+    return dispatchJsonRpc(this.createServer(caller), payload);
   }
 }
 
 // Initialize the MCP function handler
 const mcpFunction = new GoogleHomeMCPFunction();
 
+// Stateless Streamable HTTP: instances share no memory, so no session ids
+const httpEndpoint = new StreamableHttpEndpoint((caller: Caller) => mcpFunction.createServer(caller), {
+  stateless: true,
+});
+
 // Google Cloud Function entry point
 functions.http('googleHomeMCP', async (req: Request, res: Response) => {
   // CORS headers
   res.set('Access-Control-Allow-Origin', '*');
-  res.set('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-  res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  res.set('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+  res.set('Access-Control-Allow-Headers', 'Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version');
+  res.set('Access-Control-Expose-Headers', 'Mcp-Session-Id');
 
   if (req.method === 'OPTIONS') {
     res.status(204).send('');
     return;
   }
 
-  // Check auth token
-  const authHeader = req.headers.authorization;
-  const expectedToken = process.env.AUTH_TOKEN || 'your-secret-token';
-  
-  if (authHeader !== `Bearer ${expectedToken}`) {
+  // Check the API key; it also selects the caller's account and scopes
+  let caller: Caller | null;
+  try {
+    caller = await mcpFunction.authenticate(req.headers.authorization);
+  } catch (error) {
+    console.error('Error authenticating request:', error);
+    res.status(503).json({ error: 'Service unavailable: could not load accounts or API keys. See the function logs.' });
+    return;
+  }
+  if (!caller) {
     res.status(401).json({ error: 'Unauthorized' });
     return;
   }
@@ -295,14 +89,58 @@ functions.http('googleHomeMCP', async (req: Request, res: Response) => {
     return;
   }
 
+  // Audit log, with the same filters as get_audit_log
+  if (req.path === '/audit' && req.method === 'GET') {
+    if (!hasScope(caller.scopes, 'control')) {
+      res.status(403).json({ error: 'Reading the audit log requires the "control" scope' });
+      return;
+    }
+    const query = AuditQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      res.status(400).json({ error: 'Invalid query', issues: query.error.issues });
+      return;
+    }
+    try {
+      res.json({ entries: await mcpFunction.queryAudit(caller, query.data) });
+    } catch (error) {
+      console.error('Error reading audit log:', error);
+      res.status(500).json({ error: 'Could not read the audit log' });
+    }
+    return;
+  }
+
+  if (req.path === '/mcp') {
+    try {
+      await httpEndpoint.handle(req, res, caller);
+    } catch (error) {
+      console.error('Error handling MCP HTTP request:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ jsonrpc: '2.0', id: null, error: { code: -32603, message: 'Internal error' } });
+      }
+    }
+    return;
+  }
+
+  if (req.method !== 'POST') {
+    res.set('Allow', 'POST');
+    res.status(405).json({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } });
+    return;
+  }
+
   try {
     // Handle MCP requests
-    const result = await mcpFunction.handleRequest(req.body);
-    res.json(result);
+    const reply = await mcpFunction.handleRequest(caller, req.body);
+    if (reply === undefined) {
+      res.status(204).send('');
+      return;
+    }
+    res.json(reply);
   } catch (error) {
     console.error('Error handling request:', error);
-    res.status(500).json({ 
-      error: error instanceof Error ? error.message : 'Unknown error' 
+    res.status(500).json({
+      jsonrpc: '2.0',
+      id: null,
+      error: { code: -32603, message: error instanceof Error ? error.message : 'Internal error' },
     });
   }
 });
\ No newline at end of file
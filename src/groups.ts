@@ -0,0 +1,78 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { ListFile, sameName } from './files.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const GroupSchema = z
+  .object({
+    name: z.string().regex(/^[\w '-]+$/, `Use letters, digits, spaces, "'", "-" or "_"`).describe('Group name'),
+    description: z.string().optional(),
+    devices: z.array(z.string()).describe('Member device IDs'),
+  })
+  .strict();
+
+export type Group = z.infer<typeof GroupSchema>;
+
+// User-defined device groups ("downstairs", "outdoor lights") in a JSON file.
+// Names are case-insensitive. Like scenes, the file is read on every call.
+export class GroupStore {
+  private file: ListFile<Group>;
+
+  constructor(readonly filePath: string) {
+    this.file = new ListFile(filePath, { key: 'groups', item: GroupSchema });
+  }
+
+  list(): Promise<Group[]> {
+    return this.file.read();
+  }
+
+  async find(name: string): Promise<Group | undefined> {
+    return (await this.list()).find((group) => sameName(group.name, name));
+  }
+
+  async create(group: Group, replace = false): Promise<Group> {
+    const saved = { ...group, devices: [...new Set(group.devices)] };
+    await this.file.update((groups) => {
+      const index = groups.findIndex((candidate) => sameName(candidate.name, group.name));
+      if (index >= 0 && !replace) {
+        throw new Error(`Group already exists: ${groups[index].name}. Pass replace to overwrite it.`);
+      }
+      if (index >= 0) {
+        groups[index] = saved;
+      } else {
+        groups.push(saved);
+      }
+      return groups;
+    });
+    return saved;
+  }
+
+  async add(name: string, deviceIds: string[]): Promise<Group> {
+    let updated: Group | undefined;
+    await this.file.update((groups) => {
+      updated = groups.find((candidate) => sameName(candidate.name, name));
+      if (!updated) {
+        throw new Error(`Unknown group: ${name}`);
+      }
+      updated.devices = [...new Set([...updated.devices, ...deviceIds])];
+      return groups;
+    });
+    return updated!;
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.file.update((groups) => {
+      if (!groups.some((group) => sameName(group.name, name))) {
+        throw new Error(`Unknown group: ${name}`);
+      }
+      return groups.filter((group) => !sameName(group.name, name));
+    });
+  }
+}
+
+// GROUPS_FILE, or groups.json (groups-<user>.json with USERS_FILE) in the project root
+export function createGroupStore(env: NodeJS.ProcessEnv = process.env, key = 'groups'): GroupStore {
+  return new GroupStore(env.GROUPS_FILE || path.join(__dirname, `../${key}.json`));
+}
@@ -0,0 +1,197 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { readFileIfExists, writeFileAtomic } from './files.js';
+import { DevicePolicy } from './permissions.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// read: list and query devices. control: every other tool, including changing
+// device state. elevated: control security devices (locks, garage doors,
+// alarms) without a confirmation.
+// Each scope includes the ones before it: elevated ⊇ control ⊇ read
+export const KEY_SCOPES = ['read', 'control', 'elevated'] as const;
+export type KeyScope = (typeof KEY_SCOPES)[number];
+
+export function hasScope(scopes: KeyScope[], required: KeyScope): boolean {
+  return scopes.some((scope) => KEY_SCOPES.indexOf(scope) >= KEY_SCOPES.indexOf(required));
+}
+
+// Only the SHA-256 of the secret is stored. The secret is 32 random bytes,
+// so a slow password hash would add nothing.
+export interface ApiKey {
+  id: string;
+  name: string;
+  user: string;
+  scopes: KeyScope[];
+  devices?: DevicePolicy;
+  hash: string;
+  createdAt: string;
+  expiresAt?: string;
+  revokedAt?: string;
+}
+
+export interface ApiKeysFile {
+  version: 1;
+  keys: ApiKey[];
+}
+
+export interface CreateKeyOptions {
+  name: string;
+  user: string;
+  scopes: KeyScope[];
+  devices?: DevicePolicy;
+  expiresAt?: string;
+}
+
+// Keys look like ghm_<id>_<secret>. The id is not secret; it finds the record
+// so verification is a single constant-time hash comparison.
+const KEY_PATTERN = /^ghm_([0-9a-f]{12})_([A-Za-z0-9_-]{43})$/;
+
+export function defaultKeysPath(): string {
+  return path.join(__dirname, '../api-keys.json');
+}
+
+function hashSecret(secret: string): string {
+  return createHash('sha256').update(secret).digest('hex');
+}
+
+export function isKeyActive(key: ApiKey, now = Date.now()): boolean {
+  return !key.revokedAt && (!key.expiresAt || Date.parse(key.expiresAt) > now);
+}
+
+// Accepts a duration (12h, 30d, 8w) or anything Date.parse understands
+export function parseExpiry(value: string, now = Date.now()): string {
+  const duration = value.match(/^(\d+)([hdw])$/);
+  if (duration) {
+    const hours = { h: 1, d: 24, w: 24 * 7 }[duration[2] as 'h' | 'd' | 'w'];
+    return new Date(now + Number(duration[1]) * hours * 60 * 60 * 1000).toISOString();
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    throw new Error(`Invalid expiry: ${value}. Use a duration like 30d or a date like 2025-12-31`);
+  }
+  if (date <= now) {
+    throw new Error(`Expiry ${value} is in the past`);
+  }
+  return new Date(date).toISOString();
+}
+
+export function parseList(value: string): string[] {
+  return value.split(',').map((entry) => entry.trim()).filter(Boolean);
+}
+
+export function parseScopes(value: string): KeyScope[] {
+  const scopes = parseList(value);
+  for (const scope of scopes) {
+    if (!(KEY_SCOPES as readonly string[]).includes(scope)) {
+      throw new Error(`Unknown scope: ${scope}. Use ${KEY_SCOPES.join(', ')}`);
+    }
+  }
+  if (scopes.length === 0) {
+    throw new Error('At least one scope is required');
+  }
+  return scopes as KeyScope[];
+}
+
+// JSON file of hashed API keys. The file is re-read when it changes on disk,
+// so keys created or revoked with the admin CLI apply without a restart.
+export class ApiKeyStore {
+  private keys: ApiKey[] = [];
+  private loadedMtimeMs: number | null = null;
+
+  constructor(readonly filePath: string = defaultKeysPath()) {}
+
+  async list(): Promise<ApiKey[]> {
+    await this.load();
+    return this.keys.map((key) => ({ ...key }));
+  }
+
+  // Returns the plaintext key, which is shown once and never stored
+  async create(options: CreateKeyOptions): Promise<{ key: string; record: ApiKey }> {
+    await this.load();
+    if (this.keys.some((key) => key.name === options.name && !key.revokedAt)) {
+      throw new Error(`An active key named "${options.name}" already exists`);
+    }
+
+    const id = randomBytes(6).toString('hex');
+    const secret = randomBytes(32).toString('base64url');
+    const record: ApiKey = {
+      id,
+      name: options.name,
+      user: options.user,
+      scopes: options.scopes,
+      devices: options.devices,
+      hash: hashSecret(secret),
+      createdAt: new Date().toISOString(),
+      expiresAt: options.expiresAt,
+    };
+
+    this.keys.push(record);
+    await this.save();
+    return { key: `ghm_${id}_${secret}`, record: { ...record } };
+  }
+
+  // Matches an id, or the name of an active key
+  async revoke(idOrName: string): Promise<ApiKey> {
+    await this.load();
+    const key =
+      this.keys.find((candidate) => candidate.id === idOrName) ??
+      this.keys.find((candidate) => candidate.name === idOrName && !candidate.revokedAt);
+    if (!key) {
+      throw new Error(`No key with id or name "${idOrName}"`);
+    }
+    if (!key.revokedAt) {
+      key.revokedAt = new Date().toISOString();
+      await this.save();
+    }
+    return { ...key };
+  }
+
+  async verify(presented: string): Promise<ApiKey | null> {
+    const match = presented.match(KEY_PATTERN);
+    if (!match) {
+      return null;
+    }
+
+    await this.load();
+    const key = this.keys.find((candidate) => candidate.id === match[1]);
+    if (!key || !isKeyActive(key)) {
+      return null;
+    }
+
+    const expected = Buffer.from(key.hash, 'hex');
+    const actual = Buffer.from(hashSecret(match[2]), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? { ...key } : null;
+  }
+
+  private async load(): Promise<void> {
+    let mtimeMs: number;
+    try {
+      mtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.keys = [];
+      this.loadedMtimeMs = null;
+      return;
+    }
+    if (mtimeMs === this.loadedMtimeMs) {
+      return;
+    }
+
+    const content = await readFileIfExists(this.filePath);
+    const file: ApiKeysFile = content ? JSON.parse(content) : { version: 1, keys: [] };
+    this.keys = file.keys ?? [];
+    this.loadedMtimeMs = mtimeMs;
+  }
+
+  private async save(): Promise<void> {
+    const file: ApiKeysFile = { version: 1, keys: this.keys };
+    await writeFileAtomic(this.filePath, JSON.stringify(file, null, 2));
+    this.loadedMtimeMs = (await fs.stat(this.filePath)).mtimeMs;
+  }
+}
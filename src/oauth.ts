@@ -0,0 +1,120 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GoogleAuth } from './auth.js';
+
+// GoogleAuth for a single account, AccountDirectory when the state decides which
+export interface AuthorizationTarget {
+  completeAuthorization(state: string, code: string): Promise<void>;
+}
+
+export const OAUTH_CALLBACK_PATH = '/oauth/callback';
+
+export interface CallbackResponse {
+  status: number;
+  html: string;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+function renderPage(title: string, message: string): string {
+  return `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>${escapeHtml(title)}</title></head>
+<body style="font-family: sans-serif; max-width: 32em; margin: 4em auto;">
+<h1>${escapeHtml(title)}</h1>
+<p>${escapeHtml(message)}</p>
+</body>
+</html>`;
+}
+
+// Shared by the express route and the loopback listener. The state check
+// (inside completeAuthorization) is what makes this safe to leave without
+// bearer auth: only auth URLs this process issued can be completed.
+export async function handleOAuthCallback(auth: AuthorizationTarget, query: URLSearchParams): Promise<CallbackResponse> {
+  const error = query.get('error');
+  if (error) {
+    return { status: 400, html: renderPage('Authorization failed', `Google returned: ${error}`) };
+  }
+
+  const code = query.get('code');
+  const state = query.get('state');
+  if (!code || !state) {
+    return { status: 400, html: renderPage('Authorization failed', 'The callback is missing code or state.') };
+  }
+
+  try {
+    await auth.completeAuthorization(state, code);
+    return {
+      status: 200,
+      html: renderPage('Authorization complete', 'Google Home MCP is now authenticated. You can close this window.'),
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    return { status: 400, html: renderPage('Authorization failed', message) };
+  }
+}
+
+// Short-lived listener on 127.0.0.1 for stdio mode, where there is no HTTP
+// server to receive the redirect. Google allows any loopback port for
+// installed-app clients.
+export class LoopbackCallbackServer {
+  private server: http.Server | null = null;
+  private redirectUri: string | null = null;
+  private idleTimer: NodeJS.Timeout | null = null;
+
+  constructor(private auth: GoogleAuth, private port = 0, private idleTimeoutMs = 10 * 60 * 1000) {}
+
+  async start(): Promise<string> {
+    if (this.server && this.redirectUri) {
+      this.resetIdleTimer();
+      return this.redirectUri;
+    }
+
+    const server = http.createServer(async (req, res) => {
+      const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+      if (url.pathname !== OAUTH_CALLBACK_PATH) {
+        res.writeHead(404).end();
+        return;
+      }
+
+      const { status, html } = await handleOAuthCallback(this.auth, url.searchParams);
+      res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8' }).end(html);
+      if (status === 200 && !this.auth.hasPendingAuthorization()) {
+        this.stop();
+      }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, '127.0.0.1', () => resolve());
+    });
+
+    server.unref();
+
+    const { port } = server.address() as AddressInfo;
+    this.server = server;
+    this.redirectUri = `http://127.0.0.1:${port}${OAUTH_CALLBACK_PATH}`;
+    this.resetIdleTimer();
+    return this.redirectUri;
+  }
+
+  stop(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+    this.server?.close();
+    this.server = null;
+    this.redirectUri = null;
+  }
+
+  private resetIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+    }
+    this.idleTimer = setTimeout(() => this.stop(), this.idleTimeoutMs);
+    this.idleTimer.unref();
+  }
+}
@@ -0,0 +1,204 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { CommandExecution, ExecuteCommandResult, getCommandSpec } from './devices/commands.js';
+import { Device, DeviceBackend, DeviceState } from './devices/types.js';
+
+// Per-key device restrictions. Entries are device IDs or room names; deny wins
+// over allow, and an empty or missing allow list permits everything.
+export interface DevicePolicy {
+  allow?: string[];
+  deny?: string[];
+}
+
+// Commands on these need the "elevated" scope or a confirmation
+export const SENSITIVE_TYPES = [
+  'action.devices.types.LOCK',
+  'action.devices.types.GARAGE',
+  'action.devices.types.DOOR',
+  'action.devices.types.GATE',
+  'action.devices.types.SECURITYSYSTEM',
+];
+export const SENSITIVE_TRAITS = ['action.devices.traits.LockUnlock', 'action.devices.traits.ArmDisarm'];
+
+// How long a confirmation challenge can be answered
+const CONFIRMATION_TTL_MS = 2 * 60 * 1000;
+
+// Wrong PINs a key may send before it is locked out, and how long the lockout
+// (and the count of wrong PINs) lasts
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCKOUT_MS = 15 * 60 * 1000;
+
+function matchesEntry(device: Device, entry: string): boolean {
+  return device.id === entry || (!!device.room && device.room.toLowerCase() === entry.toLowerCase());
+}
+
+export function isDevicePermitted(device: Device, policy: DevicePolicy): boolean {
+  if (policy.deny?.some((entry) => matchesEntry(device, entry))) {
+    return false;
+  }
+  return !policy.allow || policy.allow.length === 0 || policy.allow.some((entry) => matchesEntry(device, entry));
+}
+
+export function isSensitive(device: Device, execution: CommandExecution): boolean {
+  return SENSITIVE_TYPES.includes(device.type) || SENSITIVE_TRAITS.includes(getCommandSpec(execution.command).trait);
+}
+
+// Hides devices outside the policy. Tools only see the filtered list, so a
+// denied device behaves exactly like one that doesn't exist.
+export class PolicyBackend implements DeviceBackend {
+  constructor(private inner: DeviceBackend, private policy: DevicePolicy) {}
+
+  get name(): string {
+    return this.inner.name;
+  }
+
+  get requiresAuth(): boolean {
+    return this.inner.requiresAuth;
+  }
+
+  async listDevices(): Promise<Device[]> {
+    return (await this.inner.listDevices()).filter((device) => isDevicePermitted(device, this.policy));
+  }
+
+  async queryStates(deviceIds: string[]): Promise<Record<string, DeviceState>> {
+    return this.inner.queryStates(await this.permitted(deviceIds));
+  }
+
+  async execute(deviceIds: string[], execution: CommandExecution): Promise<ExecuteCommandResult[]> {
+    const permitted = await this.permitted(deviceIds);
+    const denied = deviceIds.filter((id) => !permitted.includes(id));
+    const results = permitted.length > 0 ? await this.inner.execute(permitted, execution) : [];
+    return [...results, ...denied.map((id): ExecuteCommandResult => ({ ids: [id], status: 'ERROR', errorCode: 'deviceNotFound' }))];
+  }
+
+  private async permitted(deviceIds: string[]): Promise<string[]> {
+    const visible = new Set((await this.listDevices()).map((device) => device.id));
+    return deviceIds.filter((id) => visible.has(id));
+  }
+}
+
+export type ConfirmationCheck =
+  | { confirmed: true }
+  | { confirmed: false; message: string; challenge?: string; expiresInSeconds?: number; retryAfterSeconds?: number };
+
+// One-time tokens bound to a subject (the exact command and devices). A token
+// is valid once, for the same subject, until it expires.
+export class OneTimeTokens {
+  private tokens = new Map<string, { subject: string; expiresAt: number }>();
+
+  constructor(
+    readonly ttlMs: number,
+    private bytes = 4
+  ) {}
+
+  issue(subject: object): string {
+    this.prune();
+    const token = randomBytes(this.bytes).toString('hex');
+    this.tokens.set(token, { subject: digestSubject(subject), expiresAt: Date.now() + this.ttlMs });
+    return token;
+  }
+
+  redeem(subject: object, token?: string): boolean {
+    this.prune();
+    const pending = token !== undefined ? this.tokens.get(token) : undefined;
+    if (!pending || pending.subject !== digestSubject(subject)) {
+      return false;
+    }
+    this.tokens.delete(token!);
+    return true;
+  }
+
+  private prune(): void {
+    const now = Date.now();
+    for (const [token, pending] of this.tokens) {
+      if (pending.expiresAt <= now) {
+        this.tokens.delete(token);
+      }
+    }
+  }
+}
+
+// Gate for sensitive commands. With a PIN configured the caller must pass it,
+// and a key that sends too many wrong PINs is locked out for a while; otherwise
+// the first call returns a one-time challenge, bound to the exact command and
+// devices, that a second call must echo back.
+export class ConfirmationGate {
+  private challenges = new OneTimeTokens(CONFIRMATION_TTL_MS);
+  private failures = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private pin?: string) {}
+
+  get usesPin(): boolean {
+    return this.pin !== undefined;
+  }
+
+  // caller identifies who is answering (the API key), so wrong PINs are
+  // counted across commands
+  check(subject: object, confirmation?: string, caller = 'local'): ConfirmationCheck {
+    if (this.pin) {
+      return this.checkPin(this.pin, confirmation, caller);
+    }
+
+    if (this.challenges.redeem(subject, confirmation)) {
+      return { confirmed: true };
+    }
+    return {
+      confirmed: false,
+      message:
+        'This command affects security devices. Confirm with the user, then repeat the same call with confirmation set to the challenge.',
+      challenge: this.challenges.issue(subject),
+      expiresInSeconds: CONFIRMATION_TTL_MS / 1000,
+    };
+  }
+
+  private checkPin(pin: string, confirmation: string | undefined, caller: string): ConfirmationCheck {
+    const now = Date.now();
+    let failed = this.failures.get(caller);
+    if (failed && failed.resetAt <= now) {
+      this.failures.delete(caller);
+      failed = undefined;
+    }
+    if (failed && failed.count >= MAX_PIN_ATTEMPTS) {
+      const retryAfterSeconds = Math.ceil((failed.resetAt - now) / 1000);
+      return {
+        confirmed: false,
+        message: `Too many incorrect confirmation PINs. Try again in ${Math.ceil(retryAfterSeconds / 60)} minutes.`,
+        retryAfterSeconds,
+      };
+    }
+
+    if (confirmation === undefined) {
+      return {
+        confirmed: false,
+        message:
+          'This command affects security devices. Ask the user for the confirmation PIN and pass it as confirmation.',
+      };
+    }
+    if (safeEqual(confirmation, pin)) {
+      this.failures.delete(caller);
+      return { confirmed: true };
+    }
+
+    const count = (failed?.count ?? 0) + 1;
+    // The last allowed attempt starts a full lockout
+    const resetAt = !failed || count >= MAX_PIN_ATTEMPTS ? now + PIN_LOCKOUT_MS : failed.resetAt;
+    this.failures.set(caller, { count, resetAt });
+    const left = MAX_PIN_ATTEMPTS - count;
+    return {
+      confirmed: false,
+      message:
+        left > 0
+          ? `Incorrect confirmation PIN. ${left} attempts left before a lockout.`
+          : `Incorrect confirmation PIN. No attempts left for ${PIN_LOCKOUT_MS / 60_000} minutes.`,
+    };
+  }
+}
+
+function digestSubject(subject: object): string {
+  return createHash('sha256').update(JSON.stringify(subject)).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = createHash('sha256').update(a).digest();
+  const right = createHash('sha256').update(b).digest();
+  return timingSafeEqual(left, right);
+}
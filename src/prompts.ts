@@ -0,0 +1,187 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  McpError,
+  Prompt,
+  PromptMessage,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Device, DeviceState } from './devices/index.js';
+import { hasScope } from './keys.js';
+import { ToolContext } from './registry.js';
+import { assertReadable, DEVICES_URI, deviceUri, readResourceContents, roomUri } from './resources.js';
+import { loadDeviceNames } from './targets.js';
+
+type PromptArgs = Record<string, string | undefined>;
+
+interface PromptDefinition extends Prompt {
+  build(args: PromptArgs, context: ToolContext): Promise<PromptMessage[]>;
+}
+
+const user = (text: string): PromptMessage => ({ role: 'user', content: { type: 'text', text } });
+
+// Embeds the live inventory (a resource) so the model starts from real state
+async function inventory(context: ToolContext, uri: string): Promise<PromptMessage> {
+  return { role: 'user', content: { type: 'resource', resource: await readResourceContents(context, uri) } };
+}
+
+async function devicesWithStates(context: ToolContext, room?: string): Promise<Array<Device & { state: DeviceState }>> {
+  const devices = (await context.devices.listDevices()).filter(
+    (device) => !room || device.room?.toLowerCase() === room.toLowerCase()
+  );
+  const states = await context.devices.queryStates(devices.map((device) => device.id));
+  return devices.map((device) => ({ ...device, state: { ...states[device.id], online: device.online } }));
+}
+
+function describe(devices: Device[]): string {
+  if (devices.length === 0) {
+    return '- none';
+  }
+  return devices.map((device) => `- ${device.name} (${device.id}${device.room ? `, ${device.room}` : ''})`).join('\n');
+}
+
+const scopeUri = (room?: string) => (room ? roomUri(room) : DEVICES_URI);
+
+// get_audit_log needs the "control" scope, so read-only keys are pointed at
+// the state change log instead
+function recentActivity(context: ToolContext, filter: string): string {
+  return hasScope(context.caller.scopes, 'control')
+    ? `its recent commands and errors with get_audit_log (filtered by ${filter})`
+    : `its recent state changes with get_state_changes (filtered by ${filter})`;
+}
+
+const roomArgument = { name: 'room', description: 'Limit to one room (default: the whole home)', required: false };
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'morning_briefing',
+    description: 'Summarise the state of every device: what is on, temperatures, locks and doors, anything offline',
+    arguments: [roomArgument],
+    async build({ room }, context) {
+      return [
+        await inventory(context, scopeUri(room)),
+        user(
+          `Give me a short morning briefing of my ${room ? `${room} devices` : 'home'} from the device states above. ` +
+            'Cover lights and outlets that are on, thermostat temperatures and modes, whether doors, garage doors ' +
+            'and locks are open or unlocked, and any device that is offline. Group by room, lead with anything that ' +
+            'needs attention, and do not change any device.'
+        ),
+      ];
+    },
+  },
+  {
+    name: 'energy_check',
+    description: 'Find lights and other devices that are left on and suggest what to turn off',
+    arguments: [roomArgument],
+    async build({ room }, context) {
+      const on = (await devicesWithStates(context, room)).filter((device) => device.state.on === true);
+      return [
+        await inventory(context, scopeUri(room)),
+        user(
+          `Check my ${room ?? 'home'} for energy that is being wasted. ` +
+            `These devices are currently on:\n${describe(on)}\n\n` +
+            'Say which of them are likely left on by accident (for example lights in empty rooms or outlets powering ' +
+            'idle devices) and whether any thermostat is heating or cooling more than it needs to. Propose what to ' +
+            'turn off, then wait for my go-ahead before calling execute_command.'
+        ),
+      ];
+    },
+  },
+  {
+    name: 'bedtime',
+    description: 'Propose a bedtime routine (lights off, doors locked) and run it once confirmed',
+    arguments: [
+      { name: 'keepOn', description: 'Comma-separated devices or rooms to leave as they are', required: false },
+      { name: 'temperature', description: 'Night-time thermostat setpoint in °C', required: false },
+    ],
+    async build({ keepOn, temperature }, context) {
+      const devices = await devicesWithStates(context);
+      const on = devices.filter((device) => device.state.on === true);
+      const unlocked = devices.filter((device) => device.state.isLocked === false);
+      const open = devices.filter(
+        (device) => typeof device.state.openPercent === 'number' && device.state.openPercent > 0
+      );
+      return [
+        await inventory(context, DEVICES_URI),
+        user(
+          'It is bedtime. Based on the device states above, propose a bedtime routine as a numbered list of ' +
+            'commands.\n\n' +
+            `Devices that are on:\n${describe(on)}\n\n` +
+            `Unlocked locks:\n${describe(unlocked)}\n\n` +
+            `Open doors and covers:\n${describe(open)}\n\n` +
+            `Turn off lights and outlets${keepOn ? ` except ${keepOn}` : ''}, lock the locks and close what is open` +
+            `${temperature ? `, and set thermostats to ${temperature}°C` : ''}. ` +
+            'Show me the plan and ask me to confirm before running anything. Once I confirm, run it with ' +
+            'execute_command (locks and garage doors will ask for a confirmation; pass it through), or save it with ' +
+            'create_scene if I ask.'
+        ),
+      ];
+    },
+  },
+  {
+    name: 'troubleshoot_device',
+    description: 'Walk through an offline or unresponsive device, or every offline device when none is named',
+    arguments: [{ name: 'device', description: 'Device ID, name or alias (default: every offline device)', required: false }],
+    async build({ device }, context) {
+      const names = await loadDeviceNames(context);
+      if (!device) {
+        const offline = names.devices.filter((candidate) => !candidate.online);
+        return [
+          await inventory(context, DEVICES_URI),
+          user(
+            `These devices are offline:\n${describe(offline)}\n\n` +
+              `For each, check ${recentActivity(context, 'device')} and its current state ` +
+              'with get_device_states and refresh set to true, then suggest likely causes (power, Wi-Fi, hub, ' +
+              'Google account link) and concrete steps to bring it back, most likely first. If nothing is offline, ' +
+              'say so.'
+          ),
+        ];
+      }
+
+      let target: Device;
+      try {
+        target = names.resolveOne(device).device;
+      } catch (error) {
+        throw new McpError(ErrorCode.InvalidParams, error instanceof Error ? error.message : String(error));
+      }
+      // auth_status needs the "control" scope too
+      const authCheck = hasScope(context.caller.scopes, 'control')
+        ? ', and run auth_status if errors mention authorization'
+        : '';
+      return [
+        await inventory(context, deviceUri(target.id)),
+        user(
+          `My ${target.name} (${target.id}) is not working properly. It is ${target.online ? 'online' : 'offline'}. ` +
+            `Check ${recentActivity(context, 'this device')}, re-read its state with get_device_states and ` +
+            `refresh set to true${authCheck}. ` +
+            'Then walk me through likely causes and fixes one step at a time, asking what I see before moving on. ' +
+            'Only send commands to the device if I agree.'
+        ),
+      ];
+    },
+  },
+];
+
+// prompts/list and prompts/get. Prompts embed live device state, so they
+// follow the same rules as reading resources.
+export function mountPrompts(server: Server, context: ToolContext): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    const prompts = hasScope(context.caller.scopes, 'read') ? PROMPTS : [];
+    return { prompts: prompts.map(({ build: _build, ...prompt }) => prompt) };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    const prompt = PROMPTS.find((candidate) => candidate.name === request.params.name);
+    if (!prompt) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${request.params.name}`);
+    }
+    assertReadable(context);
+    try {
+      return { description: prompt.description, messages: await prompt.build(request.params.arguments ?? {}, context) };
+    } catch (error) {
+      context.auth.handleApiError(error);
+      throw error;
+    }
+  });
+}
@@ -0,0 +1,138 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ListToolsRequestSchema,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { Account, Caller } from './accounts.js';
+import { AuditSink } from './audit.js';
+import { GoogleAuth } from './auth.js';
+import { DeviceBackend, StateCache } from './devices/index.js';
+import { hasScope, KeyScope } from './keys.js';
+
+// auth and devices belong to the calling account; devices follows its active home
+export interface ToolContext {
+  caller: Caller;
+  account: Account;
+  auth: GoogleAuth;
+  devices: DeviceBackend;
+  // The cache behind devices, for refreshes and change history. It is not
+  // limited by the key's device policy, so filter by devices.listDevices().
+  states: StateCache;
+  audit: AuditSink;
+}
+
+export interface ToolDefinition<S extends z.ZodTypeAny = z.ZodTypeAny> {
+  name: string;
+  description: string;
+  inputSchema: S;
+  requiresAuth?: boolean;
+  // Scope needed to see and call the tool (default: control, so only tools
+  // that merely read device state opt into read-only callers)
+  scope?: KeyScope;
+  handler(args: z.infer<S>, context: ToolContext): Promise<CallToolResult>;
+}
+
+// A plugin is just a function that registers one or more tools
+export type ToolPlugin = (registry: ToolRegistry) => void;
+
+export function defineTool<S extends z.ZodTypeAny>(tool: ToolDefinition<S>): ToolDefinition<S> {
+  return tool;
+}
+
+export function textResult(text: string): CallToolResult {
+  return {
+    content: [
+      {
+        type: 'text',
+        text,
+      },
+    ],
+  };
+}
+
+export function jsonResult(data: unknown): CallToolResult {
+  return textResult(JSON.stringify(data, null, 2));
+}
+
+export function errorResult(error: unknown): CallToolResult {
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  return {
+    ...textResult(`Error: ${errorMessage}`),
+    isError: true,
+  };
+}
+
+function toolScope(tool: ToolDefinition): KeyScope {
+  return tool.scope ?? 'control';
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+
+  register<S extends z.ZodTypeAny>(tool: ToolDefinition<S>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  use(plugin: ToolPlugin): this {
+    plugin(this);
+    return this;
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  // With scopes, only the tools those scopes may call are listed
+  listTools(scopes?: KeyScope[]): Tool[] {
+    const visible = [...this.tools.values()].filter((tool) => !scopes || hasScope(scopes, toolScope(tool)));
+    return visible.map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      inputSchema: zodToJsonSchema(tool.inputSchema, { $refStrategy: 'none' }) as Tool['inputSchema'],
+    }));
+  }
+
+  async callTool(name: string, args: unknown, context: ToolContext): Promise<CallToolResult> {
+    try {
+      const tool = this.tools.get(name);
+      if (!tool) {
+        throw new Error(`Unknown tool: ${name}`);
+      }
+
+      const scope = toolScope(tool);
+      if (!hasScope(context.caller.scopes, scope)) {
+        throw new Error(`${name} requires an API key with the "${scope}" scope`);
+      }
+
+      // Backends that don't talk to Google (the fake) need no OAuth token
+      if (tool.requiresAuth && context.devices.requiresAuth && !context.auth.isAuthenticated()) {
+        throw new Error('Not authenticated. Please authenticate first.');
+      }
+
+      const parsed = tool.inputSchema.parse(args ?? {});
+      return await tool.handler(parsed, context);
+    } catch (error) {
+      context.auth.handleApiError(error);
+      return errorResult(error);
+    }
+  }
+
+  mount(server: Server, context: ToolContext): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return { tools: this.listTools(context.caller.scopes) };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+      return this.callTool(name, args, context);
+    });
+  }
+}
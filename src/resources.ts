@@ -0,0 +1,234 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  Resource,
+  SubscribeRequestSchema,
+  TextResourceContents,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { Device } from './devices/index.js';
+import { hasScope } from './keys.js';
+import { ToolContext } from './registry.js';
+import { SubscriptionManager } from './subscriptions.js';
+
+// home://devices, home://devices/{id}, home://rooms/{room} and home://structure.
+// IDs and room names are URI-encoded, since SDM device IDs contain slashes.
+export const DEVICES_URI = 'home://devices';
+export const STRUCTURE_URI = 'home://structure';
+
+export const deviceUri = (id: string) => `${DEVICES_URI}/${encodeURIComponent(id)}`;
+export const roomUri = (room: string) => `home://rooms/${encodeURIComponent(room)}`;
+
+const RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'home://devices/{id}',
+    name: 'Device',
+    description: 'Metadata and live state of one device',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'home://rooms/{room}',
+    name: 'Room',
+    description: 'Metadata and live state of every device in a room',
+    mimeType: 'application/json',
+  },
+];
+
+type ResourceTarget =
+  | { kind: 'devices' }
+  | { kind: 'device'; id: string }
+  | { kind: 'room'; room: string }
+  | { kind: 'structure' };
+
+function parseUri(uri: string): ResourceTarget {
+  const match = uri.match(/^home:\/\/(devices|rooms|structure)(?:\/([^/]+))?$/);
+  const [, kind, param] = match ?? [];
+  if (kind === 'devices') {
+    return param ? { kind: 'device', id: decodeURIComponent(param) } : { kind: 'devices' };
+  }
+  if (kind === 'rooms' && param) {
+    return { kind: 'room', room: decodeURIComponent(param) };
+  }
+  if (kind === 'structure' && !param) {
+    return { kind: 'structure' };
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+// Resources show device state, so they need what the read tools need
+export function assertReadable(context: ToolContext): void {
+  if (!hasScope(context.caller.scopes, 'read')) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Resources require an API key with the "read" scope');
+  }
+  if (context.devices.requiresAuth && !context.auth.isAuthenticated()) {
+    throw new McpError(ErrorCode.InvalidRequest, 'Not authenticated. Please authenticate first.');
+  }
+}
+
+// The devices a resource covers, or an error when it names none
+async function resolveDevices(context: ToolContext, target: ResourceTarget, uri: string): Promise<Device[]> {
+  const known = await context.devices.listDevices();
+  switch (target.kind) {
+    case 'devices':
+    case 'structure':
+      return known;
+    case 'device': {
+      const device = known.find((candidate) => candidate.id === target.id);
+      if (!device) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      return [device];
+    }
+    case 'room': {
+      const devices = known.filter((device) => device.room?.toLowerCase() === target.room.toLowerCase());
+      if (devices.length === 0) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+      return devices;
+    }
+  }
+}
+
+async function withStates(context: ToolContext, devices: Device[]) {
+  const states = await context.devices.queryStates(devices.map((device) => device.id));
+  return devices.map(({ id, name, nicknames, room, structure, type, traits, online }) => ({
+    id,
+    name,
+    nicknames,
+    room,
+    structure,
+    type,
+    traits,
+    online,
+    state: { ...states[id], online },
+  }));
+}
+
+// Structures, their rooms and the device IDs in each, without state
+function describeStructure(context: ToolContext, devices: Device[]) {
+  const structures = new Map<string, Map<string, string[]>>();
+  for (const device of devices) {
+    const rooms = structures.get(device.structure ?? '') ?? new Map<string, string[]>();
+    rooms.set(device.room ?? '', [...(rooms.get(device.room ?? '') ?? []), device.id]);
+    structures.set(device.structure ?? '', rooms);
+  }
+
+  return {
+    user: context.account.id,
+    activeHome: context.account.activeHome,
+    homes: context.account.listHomes(),
+    structures: [...structures].map(([structure, rooms]) => ({
+      structure: structure || undefined,
+      rooms: [...rooms].map(([room, deviceIds]) => ({
+        room: room || undefined,
+        uri: room ? roomUri(room) : undefined,
+        devices: deviceIds,
+      })),
+    })),
+  };
+}
+
+async function readResource(context: ToolContext, uri: string): Promise<unknown> {
+  const target = parseUri(uri);
+  const devices = await resolveDevices(context, target, uri);
+  switch (target.kind) {
+    case 'devices':
+      return { home: context.account.activeHome, devices: await withStates(context, devices) };
+    case 'device':
+      return (await withStates(context, devices))[0];
+    case 'room':
+      return { room: devices[0].room, devices: await withStates(context, devices) };
+    case 'structure':
+      return describeStructure(context, devices);
+  }
+}
+
+// One resource's contents, also used to embed resources in prompts
+export async function readResourceContents(context: ToolContext, uri: string): Promise<TextResourceContents> {
+  assertReadable(context);
+  try {
+    const data = await readResource(context, uri);
+    return { uri, mimeType: 'application/json', text: JSON.stringify(data, null, 2) };
+  } catch (error) {
+    context.auth.handleApiError(error);
+    throw error;
+  }
+}
+
+async function listResources(context: ToolContext): Promise<Resource[]> {
+  const fixed: Resource[] = [
+    { uri: DEVICES_URI, name: 'Devices', description: 'Every device with its live state', mimeType: 'application/json' },
+    {
+      uri: STRUCTURE_URI,
+      name: 'Structure',
+      description: 'Homes, structures and rooms with the devices in each',
+      mimeType: 'application/json',
+    },
+  ];
+  // Until the caller can read devices, only the fixed resources are listed
+  try {
+    assertReadable(context);
+  } catch {
+    return fixed;
+  }
+
+  const devices = await context.devices.listDevices();
+  const rooms = [...new Set(devices.flatMap((device) => (device.room ? [device.room] : [])))];
+  return [
+    ...fixed,
+    ...devices.map((device) => ({
+      uri: deviceUri(device.id),
+      name: device.name,
+      description: [device.room, device.type.replace('action.devices.types.', '').toLowerCase()]
+        .filter(Boolean)
+        .join(' '),
+      mimeType: 'application/json',
+    })),
+    ...rooms.map((room) => ({ uri: roomUri(room), name: room, mimeType: 'application/json' })),
+  ];
+}
+
+// resources/list, resources/templates/list and resources/read on every transport
+export function mountResources(server: Server, context: ToolContext): void {
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await listResources(context) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [await readResourceContents(context, request.params.uri)] };
+  });
+}
+
+// resources/subscribe and resources/unsubscribe, for transports with a
+// long-lived connection. Updates are sent as notifications/resources/updated;
+// a resource covers the devices it names when subscribed.
+export function mountResourceSubscriptions(
+  server: Server,
+  context: ToolContext,
+  subscriptions: SubscriptionManager
+): void {
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    assertReadable(context);
+    const target = parseUri(uri);
+    if (target.kind === 'structure') {
+      throw new McpError(ErrorCode.InvalidParams, `${uri} has no live state to subscribe to`);
+    }
+    const devices = await resolveDevices(context, target, uri);
+    await subscriptions.subscribe(context, devices.map((device) => device.id), uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.unsubscribe(context, request.params.uri);
+    return {};
+  });
+}
@@ -0,0 +1,139 @@
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { z } from 'zod';
+import { ListFile } from './files.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+// A scene runs within one request, and Cloud Functions end requests after 60 s,
+// so the delays of all its steps together stay well under that
+export const MAX_SCENE_DELAY_SECONDS = 45;
+
+// A step runs when every condition holds for the device's current state
+export const SceneConditionSchema = z
+  .object({
+    device: z.string().describe('Device whose state is checked (ID, name or alias)'),
+    state: z.string().describe('State key, e.g. "on", "brightness", "online" or "openPercent"'),
+    equals: z.unknown().optional().describe('Run only if the state equals this value'),
+    notEquals: z.unknown().optional().describe('Run only if the state differs from this value'),
+    above: z.number().optional().describe('Run only if the numeric state is greater than this'),
+    below: z.number().optional().describe('Run only if the numeric state is less than this'),
+  })
+  .strict();
+
+export const SceneStepSchema = z
+  .object({
+    command: z
+      .string()
+      .describe('Command name (e.g. "action.devices.commands.OnOff" or "OnOff") or a plain-language instruction'),
+    params: z.record(z.unknown()).default({}).describe('Command parameters'),
+    devices: z
+      .array(z.string())
+      .optional()
+      .describe('Target devices (IDs, names, aliases, groups or rooms); required for structured commands'),
+    delaySeconds: z
+      .number()
+      .min(0)
+      .max(MAX_SCENE_DELAY_SECONDS)
+      .optional()
+      .describe(`Wait this long before running the step; a scene's delays total ${MAX_SCENE_DELAY_SECONDS}s at most`),
+    when: z.array(SceneConditionSchema).optional().describe('Conditions on current state; the step is skipped unless all hold'),
+  })
+  .strict();
+
+export const SceneSchema = z
+  .object({
+    name: z.string().regex(/^[\w -]+$/, 'Use letters, digits, spaces, "-" or "_"').describe('Scene name'),
+    description: z.string().optional(),
+    steps: z.array(SceneStepSchema).min(1).describe('Steps, run in order'),
+  })
+  .strict();
+
+export type SceneCondition = z.infer<typeof SceneConditionSchema>;
+export type SceneStep = z.infer<typeof SceneStepSchema>;
+export type Scene = z.infer<typeof SceneSchema>;
+
+// Short command names ("OnOff") expand to the Google form
+export function normalizeCommand(command: string): string {
+  return /^[A-Z]\w*$/.test(command) ? `action.devices.commands.${command}` : command;
+}
+
+export function checkSceneDelay(scene: Scene): void {
+  const total = scene.steps.reduce((sum, step) => sum + (step.delaySeconds ?? 0), 0);
+  if (total > MAX_SCENE_DELAY_SECONDS) {
+    throw new Error(
+      `Scene ${scene.name} waits ${total}s in total; delays may add up to ${MAX_SCENE_DELAY_SECONDS}s. ` +
+        'Use schedule_command for longer waits.'
+    );
+  }
+}
+
+export function checkCondition(condition: SceneCondition, state: Record<string, unknown>): boolean {
+  const value = state[condition.state];
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (condition.notEquals !== undefined && value === condition.notEquals) {
+    return false;
+  }
+  if (condition.above !== undefined && !(typeof value === 'number' && value > condition.above)) {
+    return false;
+  }
+  if (condition.below !== undefined && !(typeof value === 'number' && value < condition.below)) {
+    return false;
+  }
+  return true;
+}
+
+// Scenes live in a YAML or JSON file (by extension) under a top-level
+// "scenes" list
+export class SceneStore {
+  private file: ListFile<Scene>;
+
+  constructor(readonly filePath: string) {
+    const yaml = path.extname(filePath).toLowerCase() !== '.json';
+    this.file = new ListFile(filePath, { key: 'scenes', item: SceneSchema, yaml });
+  }
+
+  list(): Promise<Scene[]> {
+    return this.file.read();
+  }
+
+  async get(name: string): Promise<Scene> {
+    const scene = (await this.list()).find((candidate) => candidate.name === name);
+    if (!scene) {
+      throw new Error(`Unknown scene: ${name}`);
+    }
+    return scene;
+  }
+
+  async save(scene: Scene, replace = false): Promise<void> {
+    checkSceneDelay(scene);
+    await this.file.update((scenes) => {
+      const index = scenes.findIndex((candidate) => candidate.name === scene.name);
+      if (index >= 0 && !replace) {
+        throw new Error(`Scene already exists: ${scene.name}. Pass replace to overwrite it.`);
+      }
+      if (index >= 0) {
+        scenes[index] = scene;
+      } else {
+        scenes.push(scene);
+      }
+      return scenes;
+    });
+  }
+
+  async delete(name: string): Promise<void> {
+    await this.file.update((scenes) => {
+      if (!scenes.some((scene) => scene.name === name)) {
+        throw new Error(`Unknown scene: ${name}`);
+      }
+      return scenes.filter((scene) => scene.name !== name);
+    });
+  }
+}
+
+// SCENES_FILE, or scenes.yaml (scenes-<user>.yaml with USERS_FILE) in the project root
+export function createSceneStore(env: NodeJS.ProcessEnv = process.env, key = 'scenes'): SceneStore {
+  return new SceneStore(env.SCENES_FILE || path.join(__dirname, `../${key}.yaml`));
+}
@@ -0,0 +1,106 @@
+// Standard five-field cron expressions (minute hour day-of-month month
+// day-of-week) with lists, ranges, steps and the usual @ shorthands.
+// Times are evaluated in the server's local time zone (set TZ to change it).
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+] as const;
+
+// Searching further than this means the expression can never match (e.g. 30 February)
+const MAX_SEARCH_YEARS = 5;
+
+function parseField(source: string, { name, min, max }: (typeof FIELDS)[number]): Set<number> {
+  const values = new Set<number>();
+  for (const part of source.split(',')) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`Invalid cron ${name}: ${part}`);
+    }
+
+    const start = match[1] === '*' ? min : Number(match[2]);
+    const end = match[1] === '*' ? max : match[3] !== undefined ? Number(match[3]) : match[4] ? max : start;
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid cron ${name}: ${part} (allowed ${min}-${max})`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+export class CronExpression {
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private days: Set<number>;
+  private months: Set<number>;
+  private weekdays: Set<number>;
+  // Cron matches either day field when both are restricted
+  private anyDay: boolean;
+  private anyWeekday: boolean;
+
+  constructor(readonly source: string) {
+    const fields = (MACROS[source.trim()] ?? source).trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new Error(`Invalid cron expression: ${source}. Expected 5 fields: minute hour day month weekday`);
+    }
+
+    [this.minutes, this.hours, this.days, this.months, this.weekdays] = fields.map((field, index) =>
+      parseField(field, FIELDS[index])
+    );
+    if (this.weekdays.delete(7)) {
+      this.weekdays.add(0);
+    }
+    this.anyDay = fields[2] === '*';
+    this.anyWeekday = fields[4] === '*';
+  }
+
+  // The first matching minute strictly after `after`
+  next(after: Date): Date {
+    const time = new Date(after);
+    time.setSeconds(0, 0);
+    time.setMinutes(time.getMinutes() + 1);
+
+    const limit = after.getFullYear() + MAX_SEARCH_YEARS;
+    while (time.getFullYear() <= limit) {
+      if (!this.months.has(time.getMonth() + 1)) {
+        time.setMonth(time.getMonth() + 1, 1);
+        time.setHours(0, 0);
+      } else if (!this.matchesDay(time)) {
+        time.setDate(time.getDate() + 1);
+        time.setHours(0, 0);
+      } else if (!this.hours.has(time.getHours())) {
+        time.setHours(time.getHours() + 1, 0);
+      } else if (!this.minutes.has(time.getMinutes())) {
+        time.setMinutes(time.getMinutes() + 1);
+      } else {
+        return time;
+      }
+    }
+    throw new Error(`Cron expression never matches: ${this.source}`);
+  }
+
+  private matchesDay(time: Date): boolean {
+    const day = this.days.has(time.getDate());
+    const weekday = this.weekdays.has(time.getDay());
+    if (this.anyDay || this.anyWeekday) {
+      return day && weekday;
+    }
+    return day || weekday;
+  }
+}
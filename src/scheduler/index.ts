@@ -0,0 +1,7 @@
+export { CronExpression } from './cron.js';
+export { nextSunEvent, sunTimes } from './solar.js';
+export type { Coordinates, SunEvent } from './solar.js';
+export { describeTrigger, isRecurring, nextRun, parseDelay, parseTime } from './triggers.js';
+export type { ScheduleTrigger } from './triggers.js';
+export { defaultSchedulesPath, Scheduler } from './scheduler.js';
+export type { NewSchedule, Schedule, ScheduleRun } from './scheduler.js';
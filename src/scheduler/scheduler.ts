@@ -0,0 +1,237 @@
+import { randomBytes } from 'crypto';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { AccountDirectory, Caller } from '../accounts.js';
+import { CommandExecution } from '../devices/index.js';
+import { readFileIfExists, writeFileAtomic } from '../files.js';
+import { hasScope } from '../keys.js';
+import { resultStatus, runExecution } from '../tools/execution.js';
+import { isRecurring, nextRun, ScheduleTrigger } from './triggers.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export interface ScheduleRun {
+  at: string;
+  status: 'SUCCESS' | 'PARTIAL' | 'ERROR';
+  error?: string;
+}
+
+// A command resolved when it was scheduled. It runs as the API key that
+// created it, against the home that was active at the time.
+export interface Schedule {
+  id: string;
+  user: string;
+  home: string;
+  keyId: string;
+  // The command as given, e.g. "turn off the porch light"
+  description: string;
+  trigger: ScheduleTrigger;
+  execution: CommandExecution;
+  devices: string[];
+  createdAt: string;
+  nextRunAt: string;
+  lastRun?: ScheduleRun;
+}
+
+export type NewSchedule = Pick<Schedule, 'description' | 'trigger' | 'execution' | 'devices'>;
+
+interface SchedulesFile {
+  version: 1;
+  schedules: Schedule[];
+}
+
+// One-shots that fell due while the server was down still run if they are
+// at most this late; older ones are dropped and recorded in the audit log
+const MISSED_GRACE_MS = 15 * 60 * 1000;
+// setTimeout can't wait longer than ~24 days, so the timer is re-armed hourly
+const MAX_TIMER_MS = 60 * 60 * 1000;
+
+export function defaultSchedulesPath(): string {
+  return path.join(__dirname, '../../schedules.json');
+}
+
+// Runs scheduled commands in the long-running server. Schedules are kept in
+// memory and written to a JSON file on every change, so they survive restarts.
+export class Scheduler {
+  private schedules: Schedule[] = [];
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private accounts: AccountDirectory,
+    readonly filePath: string = defaultSchedulesPath()
+  ) {}
+
+  async start(): Promise<void> {
+    const content = await readFileIfExists(this.filePath);
+    const file: SchedulesFile = content ? JSON.parse(content) : { version: 1, schedules: [] };
+    this.schedules = file.schedules ?? [];
+
+    // Recurring runs missed while the server was down are skipped, not replayed
+    const now = new Date();
+    for (const schedule of [...this.schedules]) {
+      if (isRecurring(schedule.trigger) && Date.parse(schedule.nextRunAt) < now.getTime()) {
+        await this.advance(schedule, now);
+      }
+    }
+    await this.save();
+    this.arm();
+  }
+
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  list(user: string): Schedule[] {
+    return this.schedules
+      .filter((schedule) => schedule.user === user)
+      .sort((a, b) => Date.parse(a.nextRunAt) - Date.parse(b.nextRunAt))
+      .map((schedule) => structuredClone(schedule));
+  }
+
+  async add(caller: Caller, home: string, input: NewSchedule): Promise<Schedule> {
+    if (!caller.key) {
+      throw new Error('Scheduling commands requires an API key');
+    }
+    const next = nextRun(input.trigger, new Date(), caller.account.location(home));
+    if (!next) {
+      throw new Error('The scheduled time is in the past');
+    }
+
+    const schedule: Schedule = {
+      id: randomBytes(4).toString('hex'),
+      user: caller.account.id,
+      home,
+      keyId: caller.key.id,
+      ...input,
+      createdAt: new Date().toISOString(),
+      nextRunAt: next.toISOString(),
+    };
+    this.schedules.push(schedule);
+    await this.save();
+    this.arm();
+    return structuredClone(schedule);
+  }
+
+  async cancel(user: string, id: string): Promise<Schedule> {
+    const schedule = this.schedules.find((candidate) => candidate.id === id && candidate.user === user);
+    if (!schedule) {
+      throw new Error(`Unknown schedule: ${id}`);
+    }
+    this.remove(schedule);
+    await this.save();
+    this.arm();
+    return schedule;
+  }
+
+  private arm(): void {
+    this.stop();
+    const next = Math.min(...this.schedules.map((schedule) => Date.parse(schedule.nextRunAt)));
+    if (!Number.isFinite(next)) {
+      return;
+    }
+    const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_MS);
+    this.timer = setTimeout(() => void this.runDue(), delay);
+    this.timer.unref();
+  }
+
+  private async runDue(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const now = new Date();
+      const due = this.schedules.filter((schedule) => Date.parse(schedule.nextRunAt) <= now.getTime());
+      for (const schedule of due) {
+        await this.run(schedule, now);
+      }
+      if (due.length > 0) {
+        await this.save();
+      }
+    } catch (error) {
+      console.error('Scheduler error:', error);
+    } finally {
+      this.running = false;
+      this.arm();
+    }
+  }
+
+  private async run(schedule: Schedule, now: Date): Promise<void> {
+    const caller = await this.accounts.callerForKey(schedule.keyId, 'scheduler');
+    const blocked =
+      !caller || caller.account.id !== schedule.user
+        ? 'the API key that created it is no longer active'
+        : !hasScope(caller.scopes, 'control')
+          ? 'its API key no longer has the "control" scope'
+          : !isRecurring(schedule.trigger) && now.getTime() - Date.parse(schedule.nextRunAt) > MISSED_GRACE_MS
+            ? `the server was not running at ${schedule.nextRunAt}`
+            : null;
+    if (!caller || blocked) {
+      await this.drop(schedule, `Schedule ${schedule.id} dropped: ${blocked}`);
+      return;
+    }
+
+    // runExecution records the run (or its error) in the audit log
+    try {
+      const context = caller.account.createContext(caller, schedule.home);
+      const response = await runExecution(context, 'schedule_command', schedule.devices, schedule.execution, {
+        schedule: schedule.id,
+      });
+      schedule.lastRun = { at: now.toISOString(), status: resultStatus(response.payload.commands) };
+    } catch (error) {
+      schedule.lastRun = { at: now.toISOString(), status: 'ERROR', error: error instanceof Error ? error.message : String(error) };
+    }
+    await this.advance(schedule, now);
+  }
+
+  // Moves a schedule to its next run after `now`, or removes it when there is none
+  private async advance(schedule: Schedule, now: Date): Promise<void> {
+    try {
+      const account = this.accounts.get(schedule.user);
+      const next = isRecurring(schedule.trigger) ? nextRun(schedule.trigger, now, account?.location(schedule.home)) : null;
+      if (next) {
+        schedule.nextRunAt = next.toISOString();
+      } else {
+        this.remove(schedule);
+      }
+    } catch (error) {
+      await this.drop(schedule, `Schedule ${schedule.id} dropped: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  private async drop(schedule: Schedule, reason: string): Promise<void> {
+    this.remove(schedule);
+    try {
+      await this.accounts.audit.append({
+        timestamp: new Date().toISOString(),
+        user: schedule.user,
+        keyId: schedule.keyId,
+        transport: 'scheduler',
+        tool: 'schedule_command',
+        schedule: schedule.id,
+        devices: schedule.devices,
+        command: schedule.execution.command,
+        params: schedule.execution.params,
+        error: reason,
+      });
+    } catch (error) {
+      console.error(`Failed to write audit entry: ${error}`);
+    }
+  }
+
+  private remove(schedule: Schedule): void {
+    this.schedules = this.schedules.filter((candidate) => candidate !== schedule);
+  }
+
+  // Writes are chained so an older snapshot never lands after a newer one
+  private save(): Promise<void> {
+    const file: SchedulesFile = { version: 1, schedules: structuredClone(this.schedules) };
+    this.writes = this.writes
+      .catch(() => {})
+      .then(() => writeFileAtomic(this.filePath, JSON.stringify(file, null, 2)));
+    return this.writes;
+  }
+}
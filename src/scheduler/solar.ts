@@ -0,0 +1,66 @@
+// Sunrise and sunset from the sunrise equation, accurate to about a minute
+// away from the poles. No network calls; only the home's coordinates.
+
+export type SunEvent = 'sunrise' | 'sunset';
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const J2000 = 2451545;
+const UNIX_EPOCH_JULIAN = 2440587.5;
+const RAD = Math.PI / 180;
+
+const toJulian = (ms: number) => ms / DAY_MS + UNIX_EPOCH_JULIAN;
+const fromJulian = (julian: number) => new Date((julian - UNIX_EPOCH_JULIAN) * DAY_MS);
+
+// Sunrise and sunset on the local calendar day containing `day`, or null
+// during polar day or night
+export function sunTimes(day: Date, { latitude, longitude }: Coordinates): Record<SunEvent, Date> | null {
+  const noon = new Date(day);
+  noon.setHours(12, 0, 0, 0);
+
+  const cycle = Math.round(toJulian(noon.getTime()) - J2000 - 0.0009 + longitude / 360);
+  const meanNoon = cycle + 0.0009 - longitude / 360;
+  const anomaly = (357.5291 + 0.98560028 * meanNoon) % 360;
+  const center =
+    1.9148 * Math.sin(anomaly * RAD) + 0.02 * Math.sin(2 * anomaly * RAD) + 0.0003 * Math.sin(3 * anomaly * RAD);
+  const eclipticLongitude = (anomaly + center + 180 + 102.9372) % 360;
+  const transit =
+    J2000 + meanNoon + 0.0053 * Math.sin(anomaly * RAD) - 0.0069 * Math.sin(2 * eclipticLongitude * RAD);
+
+  const declination = Math.asin(Math.sin(eclipticLongitude * RAD) * Math.sin(23.4397 * RAD));
+  // -0.833° accounts for refraction and the sun's radius
+  const cosHourAngle =
+    (Math.sin(-0.833 * RAD) - Math.sin(latitude * RAD) * Math.sin(declination)) /
+    (Math.cos(latitude * RAD) * Math.cos(declination));
+  if (cosHourAngle < -1 || cosHourAngle > 1) {
+    return null;
+  }
+
+  const hourAngle = Math.acos(cosHourAngle) / RAD;
+  return {
+    sunrise: fromJulian(transit - hourAngle / 360),
+    sunset: fromJulian(transit + hourAngle / 360),
+  };
+}
+
+// The first sunrise or sunset (plus offset) strictly after `after`
+export function nextSunEvent(event: SunEvent, offsetMinutes: number, location: Coordinates, after: Date): Date {
+  const day = new Date(after);
+  day.setDate(day.getDate() - 1);
+
+  for (let attempt = 0; attempt < 370; attempt++) {
+    const times = sunTimes(day, location);
+    if (times) {
+      const time = new Date(times[event].getTime() + offsetMinutes * 60 * 1000);
+      if (time > after) {
+        return time;
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  throw new Error(`No ${event} within a year at ${location.latitude}, ${location.longitude}`);
+}
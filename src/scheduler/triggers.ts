@@ -0,0 +1,80 @@
+import { CronExpression } from './cron.js';
+import { Coordinates, nextSunEvent, SunEvent } from './solar.js';
+
+// When a schedule fires. Delays are stored as one-shot times.
+export type ScheduleTrigger =
+  | { type: 'once'; at: string }
+  | { type: 'cron'; cron: string }
+  | { type: 'sun'; event: SunEvent; offsetMinutes: number };
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+
+// "20m", "1h30m", "90s", "2d"
+export function parseDelay(value: string): number {
+  const parts = [...value.replace(/\s+/g, '').matchAll(/(\d+)([smhd])/g)];
+  if (parts.length === 0 || parts.map((part) => part[0]).join('') !== value.replace(/\s+/g, '')) {
+    throw new Error(`Invalid delay: ${value}. Use e.g. 20m, 1h30m or 2d`);
+  }
+  return parts.reduce((total, [, amount, unit]) => total + Number(amount) * UNIT_MS[unit], 0);
+}
+
+// "23:00" is the next time the clock shows 23:00 (server time zone);
+// anything else must be a date Date.parse understands
+export function parseTime(value: string, now = new Date()): Date {
+  const clock = value.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    const [hours, minutes] = [Number(clock[1]), Number(clock[2])];
+    if (hours > 23 || minutes > 59) {
+      throw new Error(`Invalid time: ${value}`);
+    }
+    const time = new Date(now);
+    time.setHours(hours, minutes, 0, 0);
+    if (time <= now) {
+      time.setDate(time.getDate() + 1);
+    }
+    return time;
+  }
+
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) {
+    throw new Error(`Invalid time: ${value}. Use HH:MM or an ISO 8601 date`);
+  }
+  if (time <= now.getTime()) {
+    throw new Error(`Time ${value} is in the past`);
+  }
+  return new Date(time);
+}
+
+export function isRecurring(trigger: ScheduleTrigger): boolean {
+  return trigger.type !== 'once';
+}
+
+// The next run strictly after `after`, or null when a one-shot has passed
+export function nextRun(trigger: ScheduleTrigger, after: Date, location?: Coordinates): Date | null {
+  switch (trigger.type) {
+    case 'once': {
+      const at = new Date(trigger.at);
+      return at > after ? at : null;
+    }
+    case 'cron':
+      return new CronExpression(trigger.cron).next(after);
+    case 'sun':
+      if (!location) {
+        throw new Error('Sunrise and sunset schedules need LATITUDE and LONGITUDE for the home');
+      }
+      return nextSunEvent(trigger.event, trigger.offsetMinutes, location, after);
+  }
+}
+
+export function describeTrigger(trigger: ScheduleTrigger): string {
+  switch (trigger.type) {
+    case 'once':
+      return `once at ${trigger.at}`;
+    case 'cron':
+      return `cron ${trigger.cron}`;
+    case 'sun': {
+      const offset = trigger.offsetMinutes;
+      return offset === 0 ? `daily at ${trigger.event}` : `daily ${Math.abs(offset)} min ${offset < 0 ? 'before' : 'after'} ${trigger.event}`;
+    }
+  }
+}
@@ -1,259 +1,103 @@
 #!/usr/bin/env node
 import express from 'express';
+import { IncomingMessage } from 'http';
 import { WebSocketServer } from 'ws';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-// WebSocket transport will be implemented directly
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
-import { z } from 'zod';
-import { google, homegraph_v1 } from 'googleapis';
-import { GoogleAuth } from './auth.js';
+import { LoggingLevel, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { AccountDirectory, Caller } from './accounts.js';
+import { AuditEntry, AuditTransport } from './audit.js';
+import { createMcpServer } from './core.js';
+import { hasScope } from './keys.js';
+import { CallbackResponse, handleOAuthCallback, OAUTH_CALLBACK_PATH } from './oauth.js';
+import { ToolRegistry } from './registry.js';
+import { mountResourceSubscriptions } from './resources.js';
+import { Scheduler } from './scheduler/index.js';
+import { SubscriptionManager } from './subscriptions.js';
+import { AuditQueryArgs, AuditQuerySchema, queryAuditLog } from './tools/audit.js';
+import { builtinPlugins, createToolRegistry } from './tools/index.js';
+import { scheduleTools } from './tools/schedules.js';
+import { DEVICE_TOPIC, subscriptionTools } from './tools/subscriptions.js';
+import { StreamableHttpEndpoint } from './transports/http.js';
+import { WebSocketServerTransport } from './transports/websocket.js';
 import dotenv from 'dotenv';
 import cors from 'cors';
 
 dotenv.config();
 
-const ExecuteCommandSchema = z.object({
-  command: z.string().describe('The command to execute on Google Home devices'),
-  devices: z.array(z.string()).optional().describe('Optional list of device IDs to target'),
-});
-
-const QueryDevicesSchema = z.object({
-  devices: z.array(z.string()).optional().describe('Optional list of device IDs to query'),
-});
-
-const GetDeviceStatesSchema = z.object({
-  deviceIds: z.array(z.string()).describe('List of device IDs to get states for'),
-});
+// MCP log levels in increasing severity; state changes are sent at "info"
+const LOG_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
 
 class GoogleHomeMCPServer {
-  private auth: GoogleAuth;
-  private homegraph: homegraph_v1.Homegraph | null = null;
-
-  constructor() {
-    this.auth = new GoogleAuth();
-  }
-
-  async createServer() {
-    const server = new Server(
-      {
-        name: 'google-home-mcp',
-        version: '0.1.0',
-      },
-      {
-        capabilities: {
-          tools: {},
-        },
+  private registry: ToolRegistry;
+  private scheduler: Scheduler;
+  private subscriptions: SubscriptionManager;
+
+  constructor(private accounts: AccountDirectory) {
+    // Google redirects here after consent, completing authentication without copy-pasting codes
+    const redirectUri =
+      process.env.OAUTH_REDIRECT_URI ||
+      (process.env.PUBLIC_URL && `${process.env.PUBLIC_URL.replace(/\/$/, '')}${OAUTH_CALLBACK_PATH}`);
+    if (redirectUri) {
+      for (const account of accounts.list()) {
+        account.auth.setRedirectUriProvider(() => redirectUri);
       }
-    );
+    }
 
-    this.setupHandlers(server);
-    return server;
+    this.scheduler = new Scheduler(accounts, process.env.SCHEDULES_FILE || undefined);
+    this.subscriptions = new SubscriptionManager(Number(process.env.STATE_POLL_INTERVAL ?? 15) * 1000);
+    this.registry = createToolRegistry([
+      ...builtinPlugins,
+      scheduleTools(this.scheduler),
+      subscriptionTools(this.subscriptions),
+    ]);
   }
 
-  private setupHandlers(server: Server): void {
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return {
-        tools: [
-          {
-            name: 'execute_command',
-            description: 'Execute a command on Google Home devices',
-            inputSchema: ExecuteCommandSchema,
-          },
-          {
-            name: 'query_devices',
-            description: 'Query the state of Google Home devices',
-            inputSchema: QueryDevicesSchema,
-          },
-          {
-            name: 'get_device_states',
-            description: 'Get detailed states of specific devices',
-            inputSchema: GetDeviceStatesSchema,
-          },
-          {
-            name: 'list_devices',
-            description: 'List all available Google Home devices',
-            inputSchema: z.object({}),
-          },
-          {
-            name: 'get_auth_url',
-            description: 'Get the Google OAuth URL for authentication',
-            inputSchema: z.object({}),
-          },
-          {
-            name: 'authenticate',
-            description: 'Authenticate with Google using an authorization code',
-            inputSchema: z.object({
-              code: z.string().describe('The authorization code from Google OAuth'),
-            }),
-          },
-        ],
-      };
-    });
-
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-
-      try {
-        switch (name) {
-          case 'get_auth_url': {
-            if (!this.auth.isAuthenticated()) {
-              const authUrl = this.auth.getAuthUrl();
-              return {
-                content: [
-                  {
-                    type: 'text',
-                    text: `Please visit this URL to authorize the application:\n${authUrl}`,
-                  },
-                ],
-              };
-            }
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Already authenticated with Google.',
-                },
-              ],
-            };
-          }
-
-          case 'authenticate': {
-            const { code } = z.object({ code: z.string() }).parse(args);
-            await this.auth.getTokenFromCode(code);
-            this.homegraph = google.homegraph({
-              version: 'v1',
-              auth: this.auth.getClient(),
-            });
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Successfully authenticated with Google!',
-                },
-              ],
-            };
-          }
-
-          case 'execute_command': {
-            if (!this.auth.isAuthenticated()) {
-              throw new Error('Not authenticated. Please authenticate first.');
-            }
-            
-            const { command, devices } = ExecuteCommandSchema.parse(args);
-            
-            if (!this.homegraph) {
-              this.homegraph = google.homegraph({
-                version: 'v1',
-                auth: this.auth.getClient(),
-              });
-            }
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Command "${command}" would be executed on devices: ${devices?.join(', ') || 'all devices'}`,
-                },
-              ],
-            };
-          }
-
-          case 'query_devices': {
-            if (!this.auth.isAuthenticated()) {
-              throw new Error('Not authenticated. Please authenticate first.');
-            }
-
-            const { devices } = QueryDevicesSchema.parse(args);
-            
-            if (!this.homegraph) {
-              this.homegraph = google.homegraph({
-                version: 'v1',
-                auth: this.auth.getClient(),
-              });
-            }
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Querying devices: ${devices?.join(', ') || 'all devices'}`,
-                },
-              ],
-            };
-          }
-
-          case 'get_device_states': {
-            if (!this.auth.isAuthenticated()) {
-              throw new Error('Not authenticated. Please authenticate first.');
-            }
-
-            const { deviceIds } = GetDeviceStatesSchema.parse(args);
-            
-            if (!this.homegraph) {
-              this.homegraph = google.homegraph({
-                version: 'v1',
-                auth: this.auth.getClient(),
-              });
-            }
-
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: `Getting states for devices: ${deviceIds.join(', ')}`,
-                },
-              ],
-            };
-          }
-
-          case 'list_devices': {
-            if (!this.auth.isAuthenticated()) {
-              throw new Error('Not authenticated. Please authenticate first.');
-            }
+  authenticate(authorization: string | undefined, transport: AuditTransport): Promise<Caller | null> {
+    return this.accounts.authenticate(authorization, transport);
+  }
 
-            if (!this.homegraph) {
-              this.homegraph = google.homegraph({
-                version: 'v1',
-                auth: this.auth.getClient(),
-              });
-            }
+  isActive(caller: Caller): Promise<boolean> {
+    return this.accounts.isActive(caller);
+  }
 
-            return {
-              content: [
-                {
-                  type: 'text',
-                  text: 'Device listing would be implemented here',
-                },
-              ],
-            };
-          }
+  queryAudit(caller: Caller, query: AuditQueryArgs): Promise<AuditEntry[]> {
+    return queryAuditLog(this.accounts.audit, caller, query);
+  }
 
-          default:
-            throw new Error(`Unknown tool: ${name}`);
+  // State changes reach subscribe_device subscribers as log notifications
+  // (clients can quiet them with logging/setLevel) and resource subscribers
+  // as notifications/resources/updated
+  createServer(caller: Caller): Server {
+    const context = caller.account.createContext(caller);
+    const server = createMcpServer(this.registry, context, { logging: {}, resources: { subscribe: true } });
+    mountResourceSubscriptions(server, context, this.subscriptions);
+
+    let level: LoggingLevel = 'info';
+    server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      level = request.params.level;
+      return {};
+    });
+    this.subscriptions.connect(context, async (change, topics) => {
+      for (const topic of topics) {
+        if (topic !== DEVICE_TOPIC) {
+          await server.sendResourceUpdated({ uri: topic });
+        } else if (LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf('info')) {
+          await server.sendLoggingMessage({ level: 'info', logger: 'device-state', data: change });
         }
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${errorMessage}`,
-            },
-          ],
-        };
       }
     });
+    server.onclose = () => this.subscriptions.disconnect(context);
+    return server;
+  }
+
+  handleOAuthCallback(query: URLSearchParams): Promise<CallbackResponse> {
+    return handleOAuthCallback(this.accounts, query);
   }
 
   async initialize() {
-    try {
-      await this.auth.initialize();
-    } catch (error) {
-      console.error('Warning: Could not initialize Google Auth. You will need to authenticate.');
-    }
+    await this.accounts.assertKeysConfigured();
+    await this.accounts.initialize();
+    await this.scheduler.start();
   }
 }
 
@@ -262,73 +106,140 @@ async function main() {
   const port = process.env.PORT || 3000;
 
   // Enable CORS for Claude web
-  app.use(cors());
+  app.use(cors({ exposedHeaders: ['Mcp-Session-Id'] }));
   app.use(express.json());
 
+  const mcpServer = new GoogleHomeMCPServer(await AccountDirectory.fromEnv());
+  await mcpServer.initialize();
+
   // Health check endpoint
   app.get('/health', (req, res) => {
     res.json({ status: 'ok', service: 'google-home-mcp' });
   });
 
-  // Simple auth check (you should implement proper auth)
-  const AUTH_TOKEN = process.env.AUTH_TOKEN || 'your-secret-token';
-  
-  app.use((req, res, next) => {
-    if (req.path === '/health') return next();
+  // OAuth redirect target. Browsers can't send the bearer token, so this is
+  // exempt from the auth check; the OAuth state parameter guards it instead.
+  app.get(OAUTH_CALLBACK_PATH, async (req, res) => {
+    const query = new URLSearchParams(req.originalUrl.split('?')[1] ?? '');
+    const { status, html } = await mcpServer.handleOAuthCallback(query);
+    res.status(status).type('html').send(html);
+  });
+
+  // API keys (see `npm run admin -- keys`) identify the caller's account and scopes
+  app.use(async (req, res, next) => {
+    if (req.path === '/health' || req.path === OAUTH_CALLBACK_PATH) return next();
     
-    const authHeader = req.headers.authorization;
-    if (!authHeader || authHeader !== `Bearer ${AUTH_TOKEN}`) {
-      return res.status(401).json({ error: 'Unauthorized' });
+    try {
+      const caller = await mcpServer.authenticate(req.headers.authorization, 'http');
+      if (!caller) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+      res.locals.caller = caller;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Audit log, with the same filters as get_audit_log (?since=&until=&device=&caller=&limit=)
+  app.get('/audit', async (req, res) => {
+    const caller: Caller = res.locals.caller;
+    if (!hasScope(caller.scopes, 'control')) {
+      return res.status(403).json({ error: 'Reading the audit log requires the "control" scope' });
+    }
+    const query = AuditQuerySchema.safeParse(req.query);
+    if (!query.success) {
+      return res.status(400).json({ error: 'Invalid query', issues: query.error.issues });
+    }
+    try {
+      res.json({ entries: await mcpServer.queryAudit(caller, query.data) });
+    } catch (error) {
+      console.error('Error reading audit log:', error);
+      res.status(500).json({ error: 'Could not read the audit log' });
+    }
+  });
+
+  // Streamable HTTP transport (POST + optional SSE stream) with session ids.
+  // A session stays with the API key that initialized it.
+  const httpEndpoint = new StreamableHttpEndpoint((caller: Caller) => mcpServer.createServer(caller), {
+    ownerOf: (caller) => caller.key?.id,
+    idleTimeoutMs: Number(process.env.HTTP_SESSION_IDLE_TIMEOUT ?? 1800) * 1000,
+  });
+  app.all('/mcp', async (req, res) => {
+    try {
+      await httpEndpoint.handle(req, res, res.locals.caller);
+    } catch (error) {
+      console.error('Error handling MCP HTTP request:', error);
+      if (!res.headersSent) {
+        res.status(500).json({ jsonrpc: '2.0', id: null, error: { code: -32603, message: 'Internal error' } });
+      }
     }
-    next();
   });
 
   const server = app.listen(port, () => {
     console.log(`🚀 Google Home MCP server listening on port ${port}`);
   });
 
-  // WebSocket server for MCP
+  // WebSocket server for MCP. Upgrades bypass express, so check auth here too.
+  const wsCallers = new WeakMap<IncomingMessage, Caller>();
   const wss = new WebSocketServer({ 
     server,
-    path: '/mcp'
+    path: '/mcp',
+    verifyClient: ({ req }: { req: IncomingMessage }, done: (result: boolean, code?: number) => void) => {
+      mcpServer.authenticate(req.headers.authorization, 'ws').then(
+        (caller) => {
+          if (caller) {
+            wsCallers.set(req, caller);
+          }
+          done(!!caller, 401);
+        },
+        () => done(false, 500)
+      );
+    },
   });
 
-  const mcpServer = new GoogleHomeMCPServer();
-  await mcpServer.initialize();
+  const heartbeatIntervalMs = Number(process.env.WS_HEARTBEAT_INTERVAL_MS || 30000);
 
-  wss.on('connection', async (ws) => {
-    console.log('New WebSocket connection established');
-    
-    // For now, we'll implement a simple request-response pattern
-    // In production, you'd want to use the official MCP WebSocket transport
-    const server = await mcpServer.createServer();
-    
-    ws.on('message', async (data) => {
-      try {
-        const request = JSON.parse(data.toString());
-        // Handle MCP requests here
-        // This is a simplified implementation
-        ws.send(JSON.stringify({ 
-          jsonrpc: '2.0',
-          id: request.id,
-          result: { message: 'MCP server connected' }
-        }));
-      } catch (error) {
-        console.error('WebSocket message error:', error);
-      }
+  wss.on('connection', (ws, req) => {
+    const caller = wsCallers.get(req)!;
+    console.log(`New WebSocket connection established for ${caller.account.id} (key ${caller.key?.name})`);
+
+    // One MCP Server per connection, so initialize/capabilities are per client
+    const server = mcpServer.createServer(caller);
+    // The key is checked again on every message and heartbeat, so revoking or
+    // expiring it also ends connections opened with it
+    const transport = new WebSocketServerTransport(ws, {
+      heartbeatIntervalMs,
+      authorize: () => mcpServer.isActive(caller),
     });
-    
-    ws.on('close', () => {
+
+    transport.onerror = (error) => {
+      console.error('WebSocket transport error:', error);
+    };
+    const onclose = server.onclose;
+    server.onclose = () => {
+      onclose?.();
       console.log('WebSocket connection closed');
+    };
+
+    server.connect(transport).catch((error) => {
+      console.error('Failed to start MCP session:', error);
+      ws.close(1011, 'Failed to start MCP session');
     });
-    
-    // Send initial connection message
-    ws.send(JSON.stringify({
-      jsonrpc: '2.0',
-      method: 'connection.ready',
-      params: {}
-    }));
   });
+
+  const shutdown = () => {
+    for (const client of wss.clients) {
+      client.close(1001, 'Server shutting down');
+    }
+    wss.close();
+    httpEndpoint.closeAll().finally(() => server.close(() => process.exit(0)));
+  };
+  process.on('SIGTERM', shutdown);
+  process.on('SIGINT', shutdown);
 }
 
-main().catch(console.error);
\ No newline at end of file
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
\ No newline at end of file
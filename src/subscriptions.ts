@@ -0,0 +1,153 @@
+import { StateCache, StateChange } from './devices/index.js';
+import { ToolContext } from './registry.js';
+
+// Delivers one change to a connection, with the topics (subscribe_device, a
+// resource URI, ...) that asked for the device
+export type ChangeListener = (change: StateChange, topics: string[]) => Promise<void>;
+
+interface Connection {
+  notify: ChangeListener;
+  // Topics per subscribed device ID, per home cache, with the cache's unsubscribe function
+  homes: Map<StateCache, { devices: Map<string, Set<string>>; unlisten: () => void }>;
+}
+
+// Tracks which devices each long-lived connection wants change notifications
+// for. Changes come from the state cache whenever any read detects one; the
+// poller makes sure subscribed devices are read every interval.
+export class SubscriptionManager {
+  private connections = new Map<ToolContext, Connection>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(private pollIntervalMs: number) {}
+
+  connect(context: ToolContext, notify: ChangeListener): void {
+    this.connections.set(context, { notify, homes: new Map() });
+  }
+
+  disconnect(context: ToolContext): void {
+    const connection = this.connections.get(context);
+    for (const { unlisten } of connection?.homes.values() ?? []) {
+      unlisten();
+    }
+    this.connections.delete(context);
+    this.arm();
+  }
+
+  // Subscribes to devices in the context's current home. Devices the
+  // caller's key can't see are rejected like unknown ones.
+  async subscribe(context: ToolContext, deviceIds: string[], topic: string): Promise<string[]> {
+    const connection = this.requireConnection(context);
+    const visible = new Set((await context.devices.listDevices()).map((device) => device.id));
+    const unknown = deviceIds.filter((id) => !visible.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown devices: ${unknown.join(', ')}`);
+    }
+
+    const cache = context.states;
+    let home = connection.homes.get(cache);
+    if (!home) {
+      const devices = new Map<string, Set<string>>();
+      const unlisten = cache.onChange((change) => {
+        const topics = devices.get(change.device);
+        if (topics) {
+          connection.notify(change, [...topics]).catch((error) => console.error('Failed to send state change:', error));
+        }
+      });
+      home = { devices, unlisten };
+      connection.homes.set(cache, home);
+    }
+    for (const id of deviceIds) {
+      home.devices.set(id, (home.devices.get(id) ?? new Set()).add(topic));
+    }
+
+    // The first read is the baseline later reads are compared with
+    await context.devices.queryStates(deviceIds);
+    this.arm();
+    return this.subscriptions(context, topic);
+  }
+
+  // Without deviceIds, drops every device subscribed under the topic
+  unsubscribe(context: ToolContext, topic: string, deviceIds?: string[]): string[] {
+    const connection = this.requireConnection(context);
+    for (const [cache, home] of connection.homes) {
+      for (const [id, topics] of home.devices) {
+        if (!deviceIds || deviceIds.includes(id)) {
+          topics.delete(topic);
+        }
+        if (topics.size === 0) {
+          home.devices.delete(id);
+        }
+      }
+      if (home.devices.size === 0) {
+        home.unlisten();
+        connection.homes.delete(cache);
+      }
+    }
+    this.arm();
+    return this.subscriptions(context, topic);
+  }
+
+  subscriptions(context: ToolContext, topic: string): string[] {
+    const ids = new Set<string>();
+    for (const home of this.connections.get(context)?.homes.values() ?? []) {
+      for (const [id, topics] of home.devices) {
+        if (topics.has(topic)) {
+          ids.add(id);
+        }
+      }
+    }
+    return [...ids].sort();
+  }
+
+  private requireConnection(context: ToolContext): Connection {
+    const connection = this.connections.get(context);
+    if (!connection) {
+      throw new Error('Subscriptions need a long-lived connection (WebSocket or a Streamable HTTP session)');
+    }
+    return connection;
+  }
+
+  // Polls only while someone is subscribed
+  private arm(): void {
+    const active = [...this.connections.values()].some((connection) => connection.homes.size > 0);
+    if (active && !this.timer && this.pollIntervalMs > 0) {
+      this.timer = setInterval(() => void this.poll(), this.pollIntervalMs);
+      this.timer.unref();
+    } else if (!active && this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      // One upstream read per home, covering every connection's devices
+      const wanted = new Map<StateCache, Set<string>>();
+      for (const connection of this.connections.values()) {
+        for (const [cache, home] of connection.homes) {
+          const devices = wanted.get(cache) ?? new Set<string>();
+          home.devices.forEach((_topics, id) => devices.add(id));
+          wanted.set(cache, devices);
+        }
+      }
+
+      await Promise.all(
+        [...wanted].map(async ([cache, devices]) => {
+          try {
+            cache.invalidate([...devices]);
+            await cache.queryStates([...devices]);
+          } catch (error) {
+            console.error('Failed to poll device states:', error);
+          }
+        })
+      );
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { Alias } from './aliases.js';
+import { Device } from './devices/index.js';
+import { Group } from './groups.js';
+import { ToolContext } from './registry.js';
+
+export type MatchKind = 'id' | 'alias' | 'group' | 'room' | 'name' | 'nickname' | 'fuzzy';
+
+// How one entry of a devices argument was understood
+export interface TargetMatch {
+  name: string;
+  match: MatchKind;
+  devices: string[];
+}
+
+export interface ResolvedTargets {
+  ids: string[];
+  // Entries that were not plain device IDs, to report back to the caller
+  resolved?: TargetMatch[];
+}
+
+// An entry that named no single device, with the reason (and near-matches)
+export interface UnresolvedTarget {
+  name: string;
+  error: string;
+}
+
+// Similarity a fuzzy match needs when the words don't line up exactly, and
+// the lower bar for suggesting a device in an error
+const FUZZY_THRESHOLD = 0.75;
+const SUGGESTION_THRESHOLD = 0.4;
+const MAX_SUGGESTIONS = 5;
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_value, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function similarity(a: string, b: string): number {
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length, 1);
+}
+
+const describeAll = (devices: Device[]) =>
+  devices.map((device) => `${device.name} (${device.id}${device.room ? `, ${device.room}` : ''})`).join(', ');
+
+// Turns the names people and models use for devices into device IDs. Each
+// entry is tried, in order, as a device ID, an alias, a group, a room, a
+// device name, a Google nickname, and finally a fuzzy match on any of these
+// that must single out one device. Anything else is an error naming the
+// closest devices, so IDs are never guessed.
+export class DeviceNames {
+  constructor(
+    readonly devices: Device[],
+    private aliases: Alias[],
+    private groups: Group[]
+  ) {}
+
+  resolve(names: string[]): ResolvedTargets {
+    return this.combine(names.map((name) => this.match(name)));
+  }
+
+  // Like resolve, but each entry stands alone: entries that can't be resolved
+  // are returned with their error instead of failing the others
+  resolveEach(names: string[]): ResolvedTargets & { unresolved: UnresolvedTarget[] } {
+    const matches: TargetMatch[] = [];
+    const unresolved: UnresolvedTarget[] = [];
+    for (const name of names) {
+      try {
+        matches.push(this.match(name));
+      } catch (error) {
+        unresolved.push({ name, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+    return { ...this.combine(matches), unresolved };
+  }
+
+  // Like resolve, for arguments that name exactly one device
+  resolveOne(name: string): { device: Device; resolved?: TargetMatch } {
+    const match = this.match(name);
+    if (match.devices.length !== 1) {
+      throw new Error(`"${name}" is a ${match.match} of ${match.devices.length} devices. Name a single device.`);
+    }
+    const device = this.devices.find((candidate) => candidate.id === match.devices[0])!;
+    return { device, resolved: match.match === 'id' ? undefined : match };
+  }
+
+  aliasesOf(id: string): string[] {
+    return this.aliases.filter((alias) => alias.device === id).map((alias) => alias.alias);
+  }
+
+  // Devices with their aliases added to the nicknames, for plain-language commands
+  withAliases(): Device[] {
+    return this.devices.map((device) => {
+      const aliases = this.aliasesOf(device.id);
+      return aliases.length > 0 ? { ...device, nicknames: [...(device.nicknames ?? []), ...aliases] } : device;
+    });
+  }
+
+  private combine(matches: TargetMatch[]): ResolvedTargets {
+    const resolved = matches.filter((match) => match.match !== 'id');
+    return {
+      ids: [...new Set(matches.flatMap((match) => match.devices))],
+      resolved: resolved.length > 0 ? resolved : undefined,
+    };
+  }
+
+  private match(name: string): TargetMatch {
+    const ids = new Set(this.devices.map((device) => device.id));
+    if (ids.has(name)) {
+      return { name, match: 'id', devices: [name] };
+    }
+
+    const key = normalize(name);
+    const alias = this.aliases.find((candidate) => normalize(candidate.alias) === key && ids.has(candidate.device));
+    if (alias) {
+      return { name, match: 'alias', devices: [alias.device] };
+    }
+    const group = this.groups.find((candidate) => normalize(candidate.name) === key);
+    if (group) {
+      return { name, match: 'group', devices: group.devices.filter((id) => ids.has(id)) };
+    }
+    const room = this.devices.filter((device) => device.room && normalize(device.room) === key);
+    if (room.length > 0) {
+      return { name, match: 'room', devices: room.map((device) => device.id) };
+    }
+
+    const named = this.devices.filter((device) => normalize(device.name) === key);
+    const nicknamed = this.devices.filter((device) =>
+      device.nicknames?.some((nickname) => normalize(nickname) === key)
+    );
+    for (const [match, devices] of [
+      ['name', named],
+      ['nickname', nicknamed],
+    ] as const) {
+      if (devices.length === 1) {
+        return { name, match, devices: [devices[0].id] };
+      }
+      if (devices.length > 1) {
+        throw new Error(`"${name}" matches several devices: ${describeAll(devices)}. Use one of their IDs.`);
+      }
+    }
+
+    return this.fuzzyMatch(name, key);
+  }
+
+  // Accepts a single device whose labels contain every word of the name, or
+  // which is the only one close enough in spelling ("kitchen light" for
+  // "Kitchen Lights")
+  private fuzzyMatch(name: string, key: string): TargetMatch {
+    const words = key.split(' ').filter(Boolean);
+    const scored = this.devices
+      .map((device) => {
+        const labels = [device.name, ...(device.nicknames ?? []), ...this.aliasesOf(device.id)].map(normalize);
+        const known = new Set([...labels, normalize(device.room ?? '')].flatMap((label) => label.split(' ')));
+        // "bedroom lamp" should be close to a lamp in the bedroom
+        const spellings = labels.flatMap((label) => [label, normalize(`${device.room ?? ''} ${label}`)]);
+        const score = Math.max(...spellings.map((spelling) => similarity(key, spelling)));
+        return { device, score, contains: words.length > 0 && words.every((word) => known.has(word)) };
+      })
+      .sort((a, b) => b.score - a.score || a.device.id.localeCompare(b.device.id));
+
+    const close = scored.filter(({ score, contains }) => contains || score >= FUZZY_THRESHOLD);
+    if (close.length === 1) {
+      return { name, match: 'fuzzy', devices: [close[0].device.id] };
+    }
+
+    if (close.length > 1) {
+      const options = describeAll(close.slice(0, MAX_SUGGESTIONS).map(({ device }) => device));
+      throw new Error(`"${name}" could be several devices: ${options}. Use one of their IDs.`);
+    }
+    const suggestions = scored.filter(({ score }) => score >= SUGGESTION_THRESHOLD).slice(0, MAX_SUGGESTIONS);
+    throw new Error(
+      suggestions.length > 0
+        ? `Unknown device "${name}". Did you mean: ${describeAll(suggestions.map(({ device }) => device))}?`
+        : `Unknown device "${name}". Use list_devices to see device IDs and names.`
+    );
+  }
+}
+
+// The caller's visible devices with the account's aliases and groups
+export async function loadDeviceNames(context: ToolContext): Promise<DeviceNames> {
+  const [devices, aliases, groups] = await Promise.all([
+    context.devices.listDevices(),
+    context.account.aliases.list(),
+    context.account.groups.list(),
+  ]);
+  return new DeviceNames(devices, aliases, groups);
+}
@@ -0,0 +1,195 @@
+import { Credentials as StoredTokens } from 'google-auth-library';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { readFileIfExists, writeFileAtomic } from './files.js';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export type { StoredTokens };
+
+export interface TokenStore {
+  load(): Promise<StoredTokens | null>;
+  save(tokens: StoredTokens): Promise<void>;
+  clear(): Promise<void>;
+}
+
+// Minimal key-value client, so any KV service can back token storage
+export interface KeyValueClient {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export class MemoryTokenStore implements TokenStore {
+  private tokens: StoredTokens | null;
+
+  constructor(initial: StoredTokens | null = null) {
+    this.tokens = initial;
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    return this.tokens ? { ...this.tokens } : null;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    this.tokens = { ...tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
+
+export class FileTokenStore implements TokenStore {
+  constructor(private filePath: string) {}
+
+  async load(): Promise<StoredTokens | null> {
+    const content = await readFileIfExists(this.filePath);
+    return content ? JSON.parse(content) : null;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    await writeFileAtomic(this.filePath, JSON.stringify(tokens, null, 2));
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
+
+// AES-256-GCM encrypted file. The key is stretched with scrypt using a
+// per-file random salt, so any passphrase-like secret works.
+export class EncryptedFileTokenStore implements TokenStore {
+  constructor(private filePath: string, private secret: string) {
+    if (!secret) {
+      throw new Error('Encrypted token storage requires TOKEN_ENCRYPTION_KEY');
+    }
+  }
+
+  async load(): Promise<StoredTokens | null> {
+    const content = await readFileIfExists(this.filePath);
+    if (!content) {
+      return null;
+    }
+
+    const { salt, iv, tag, data } = JSON.parse(content);
+    const key = scryptSync(this.secret, Buffer.from(salt, 'base64'), 32);
+    const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64'));
+    try {
+      const plaintext = Buffer.concat([decipher.update(Buffer.from(data, 'base64')), decipher.final()]);
+      return JSON.parse(plaintext.toString('utf-8'));
+    } catch {
+      throw new Error(`Could not decrypt ${this.filePath}. Check TOKEN_ENCRYPTION_KEY.`);
+    }
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = scryptSync(this.secret, salt, 32);
+    const cipher = createCipheriv('aes-256-gcm', key, iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf-8'), cipher.final()]);
+
+    await writeFileAtomic(
+      this.filePath,
+      JSON.stringify({
+        version: 1,
+        salt: salt.toString('base64'),
+        iv: iv.toString('base64'),
+        tag: cipher.getAuthTag().toString('base64'),
+        data: data.toString('base64'),
+      })
+    );
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.filePath, { force: true });
+  }
+}
+
+export class KeyValueTokenStore implements TokenStore {
+  constructor(private client: KeyValueClient, private key: string) {}
+
+  async load(): Promise<StoredTokens | null> {
+    const value = await this.client.get(this.key);
+    return value ? JSON.parse(value) : null;
+  }
+
+  async save(tokens: StoredTokens): Promise<void> {
+    await this.client.set(this.key, JSON.stringify(tokens));
+  }
+
+  async clear(): Promise<void> {
+    await this.client.delete(this.key);
+  }
+}
+
+// REST key-value service: GET/PUT/DELETE {baseUrl}/{key} with an optional
+// bearer token. Fits most hosted KV stores that expose a plain HTTP API.
+export class HttpKeyValueClient implements KeyValueClient {
+  constructor(private baseUrl: string, private token?: string) {}
+
+  async get(key: string): Promise<string | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    return response.text();
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.request('PUT', key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('DELETE', key);
+  }
+
+  private async request(method: string, key: string, body?: string): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/${encodeURIComponent(key)}`, {
+      method,
+      body,
+      headers: this.token ? { Authorization: `Bearer ${this.token}` } : undefined,
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`Token store ${method} ${key} failed: ${response.status} ${response.statusText}`);
+    }
+    return response;
+  }
+}
+
+// Reads tokens from GOOGLE_TOKEN. Refreshed tokens are kept in memory only,
+// which is fine as long as the refresh token itself stays valid.
+export class EnvTokenStore extends MemoryTokenStore {
+  constructor(value?: string) {
+    super(value ? JSON.parse(value) : null);
+  }
+}
+
+// TOKEN_STORE selects the backend: file (default), memory, env,
+// encrypted-file or kv.
+export function createTokenStore(env: NodeJS.ProcessEnv = process.env, key = 'token'): TokenStore {
+  const kind = env.TOKEN_STORE || 'file';
+  const defaultPath = path.join(__dirname, `../${key}.json`);
+
+  switch (kind) {
+    case 'file':
+      return new FileTokenStore(env.TOKEN_PATH || defaultPath);
+    case 'memory':
+      return new MemoryTokenStore();
+    case 'env':
+      return new EnvTokenStore(env.GOOGLE_TOKEN);
+    case 'encrypted-file':
+      return new EncryptedFileTokenStore(env.TOKEN_PATH || `${defaultPath}.enc`, env.TOKEN_ENCRYPTION_KEY ?? '');
+    case 'kv':
+      if (!env.TOKEN_STORE_URL) {
+        throw new Error('TOKEN_STORE=kv requires TOKEN_STORE_URL');
+      }
+      return new KeyValueTokenStore(new HttpKeyValueClient(env.TOKEN_STORE_URL, env.TOKEN_STORE_AUTH), key);
+    default:
+      throw new Error(`Unknown TOKEN_STORE: ${kind}`);
+  }
+}
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { AliasSchema } from '../aliases.js';
+import { defineTool, jsonResult, ToolPlugin } from '../registry.js';
+import { loadDeviceNames } from '../targets.js';
+
+export const listAliasesTool = defineTool({
+  name: 'list_aliases',
+  description: 'List user-defined device aliases and the devices they name',
+  inputSchema: z.object({}),
+  requiresAuth: true,
+  scope: 'read',
+  async handler(_args, context) {
+    const names = await loadDeviceNames(context);
+    const aliases = await context.account.aliases.list();
+    return jsonResult({
+      aliases: aliases.flatMap(({ alias, device }) => {
+        const named = names.devices.find((candidate) => candidate.id === device);
+        return named ? [{ alias, device, name: named.name, room: named.room }] : [];
+      }),
+    });
+  },
+});
+
+export const setAliasTool = defineTool({
+  name: 'set_alias',
+  description:
+    'Give a device an extra name, such as "reading lamp". Aliases work wherever a tool takes devices and in ' +
+    'plain-language commands. Setting an existing alias points it at the new device',
+  inputSchema: AliasSchema.extend({
+    device: z.string().describe('Device ID or current name'),
+  }),
+  requiresAuth: true,
+  async handler({ alias, device }, context) {
+    const { device: target, resolved } = (await loadDeviceNames(context)).resolveOne(device);
+    await context.account.aliases.set({ alias, device: target.id });
+    return jsonResult({ resolved, saved: { alias, device: target.id, name: target.name, room: target.room } });
+  },
+});
+
+export const deleteAliasTool = defineTool({
+  name: 'delete_alias',
+  description: 'Delete a device alias. The device itself is not affected',
+  inputSchema: z.object({
+    alias: z.string().describe('Alias to delete'),
+  }),
+  async handler({ alias }, { account }) {
+    const deleted = await account.aliases.delete(alias);
+    return jsonResult({ deleted });
+  },
+});
+
+export const aliasTools: ToolPlugin = (registry) => {
+  registry.register(listAliasesTool).register(setAliasTool).register(deleteAliasTool);
+};
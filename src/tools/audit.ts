@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { Caller } from '../accounts.js';
+import { AuditEntry, AuditSink } from '../audit.js';
+import { defineTool, jsonResult, ToolPlugin } from '../registry.js';
+
+const timestamp = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO 8601 date or time');
+
+// Shared with the /audit HTTP endpoint, which passes query-string values
+export const AuditQuerySchema = z.object({
+  since: timestamp.optional().describe('Only entries at or after this time (ISO 8601)'),
+  until: timestamp.optional().describe('Only entries at or before this time (ISO 8601)'),
+  device: z.string().optional().describe('Only entries that targeted this device ID'),
+  caller: z.string().optional().describe('Only entries by this API key name or ID'),
+  limit: z.coerce.number().int().min(1).max(1000).default(100).describe('Maximum number of entries, newest first'),
+});
+
+export type AuditQueryArgs = z.infer<typeof AuditQuerySchema>;
+
+// Callers only ever see their own account's entries
+export function queryAuditLog(audit: AuditSink, caller: Caller, query: AuditQueryArgs): Promise<AuditEntry[]> {
+  return audit.query({ ...query, user: caller.account.id });
+}
+
+export const getAuditLogTool = defineTool({
+  name: 'get_audit_log',
+  description: 'Read the audit log of executed commands (who, when, over which transport, what, and per-device results)',
+  inputSchema: AuditQuerySchema,
+  async handler(query, { audit, caller }) {
+    return jsonResult({ entries: await queryAuditLog(audit, caller, query) });
+  },
+});
+
+export const auditTools: ToolPlugin = (registry) => {
+  registry.register(getAuditLogTool);
+};
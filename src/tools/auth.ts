@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, ToolPlugin } from '../registry.js';
+
+export const getAuthUrlTool = defineTool({
+  name: 'get_auth_url',
+  description:
+    'Get the Google OAuth URL for authentication. Call again with waitSeconds to wait for the browser redirect to complete',
+  inputSchema: z.object({
+    waitSeconds: z
+      .number()
+      .int()
+      .min(0)
+      .max(300)
+      .optional()
+      .describe('Wait up to this many seconds for a pending authorization to complete instead of issuing a new URL'),
+  }),
+  scope: 'control',
+  async handler({ waitSeconds }, { auth }) {
+    if (!auth.isAuthenticated() && waitSeconds && auth.hasPendingAuthorization()) {
+      await auth.waitForAuthorization(waitSeconds * 1000);
+    }
+
+    if (auth.isAuthenticated()) {
+      const authorizedAt = auth.getAuthorizedAt();
+      return textResult(
+        authorizedAt
+          ? `Authorization completed at ${authorizedAt.toISOString()}. Authenticated with Google.`
+          : 'Already authenticated with Google.'
+      );
+    }
+
+    if (waitSeconds && auth.hasPendingAuthorization()) {
+      return textResult('Authorization is still pending. Finish signing in with the URL you were given.');
+    }
+
+    const authUrl = await auth.getAuthUrl();
+    return textResult(
+      `Please visit this URL to authorize the application:\n${authUrl}\n\n` +
+        'If the browser is redirected back to this server, authentication completes automatically ' +
+        '(call get_auth_url with waitSeconds to confirm). Otherwise copy the code from the redirect URL into the authenticate tool.'
+    );
+  },
+});
+
+export const authenticateTool = defineTool({
+  name: 'authenticate',
+  description: 'Authenticate with Google using an authorization code',
+  inputSchema: z.object({
+    code: z.string().describe('The authorization code from Google OAuth'),
+  }),
+  scope: 'control',
+  async handler({ code }, { auth }) {
+    await auth.getTokenFromCode(code);
+    return textResult('Successfully authenticated with Google!');
+  },
+});
+
+export const authStatusTool = defineTool({
+  name: 'auth_status',
+  description: 'Report Google authentication state: granted scopes, token expiry and whether re-consent is required',
+  inputSchema: z.object({
+    refresh: z.boolean().optional().describe('Force a token refresh to verify the refresh token still works'),
+  }),
+  async handler({ refresh }, { caller, account, auth, devices }) {
+    const status = await auth.getAuthStatus({ refresh });
+    return jsonResult({
+      ...status,
+      user: account.id,
+      apiKey: caller.key?.name,
+      apiKeyScopes: caller.scopes,
+      home: account.activeHome,
+      deviceBackend: devices.name,
+      backendRequiresAuth: devices.requiresAuth,
+    });
+  },
+});
+
+export const authTools: ToolPlugin = (registry) => {
+  registry.register(getAuthUrlTool).register(authenticateTool).register(authStatusTool);
+};
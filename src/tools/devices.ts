@@ -0,0 +1,253 @@
+import { z } from 'zod';
+import { COMMANDS, filterDevices, QueryDeviceResult, queryDevices } from '../devices/index.js';
+import { hasScope } from '../keys.js';
+import { defineTool, jsonResult, ToolPlugin } from '../registry.js';
+import { loadDeviceNames } from '../targets.js';
+import {
+  ConfirmationTokenSchema,
+  planExecution,
+  requireCommandToken,
+  requireConfirmation,
+  resolveCommand,
+  runExecution,
+  sensitiveDevices,
+} from './execution.js';
+
+export const ExecuteCommandSchema = z.object({
+  command: z
+    .string()
+    .describe(
+      `Google smart-home command (one of: ${Object.keys(COMMANDS).join(', ')}) ` +
+        'or a plain-language instruction such as "turn off the kitchen lights"'
+    ),
+  params: z
+    .record(z.unknown())
+    .default({})
+    .describe('Command parameters, e.g. { "on": true } for OnOff or { "brightness": 30 } for BrightnessAbsolute'),
+  devices: z
+    .array(z.string())
+    .optional()
+    .describe(
+      'Devices to target, by ID, name, nickname or alias, or a group or room name. Required for structured commands; ' +
+        'narrows the candidates for plain-language ones'
+    ),
+  confirmation: z
+    .string()
+    .optional()
+    .describe('Confirmation PIN or challenge, required for locks, garage doors and security systems without the elevated scope'),
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe('Validate the command and return the planned change per device (current → target) without running it'),
+  confirmationToken: ConfirmationTokenSchema,
+});
+
+const RefreshSchema = z
+  .boolean()
+  .optional()
+  .describe('Bypass the state cache and read current states from Google');
+
+export const QueryDevicesSchema = z.object({
+  devices: z
+    .array(z.string())
+    .optional()
+    .describe('Optional list of devices to query, by ID, name, nickname or alias, or a group or room name'),
+  room: z.string().optional().describe('Only devices in this room'),
+  type: z.string().optional().describe('Only devices of this type, e.g. "light" or "action.devices.types.LIGHT"'),
+  trait: z.string().optional().describe('Only devices with this trait, e.g. "OnOff" or "action.devices.traits.OnOff"'),
+  online: z.boolean().optional().describe('Only online (true) or offline (false) devices'),
+  refresh: RefreshSchema,
+});
+
+export const GetDeviceStatesSchema = z.object({
+  deviceIds: z
+    .array(z.string())
+    .describe('Devices to get states for, by ID, name, nickname or alias, or a group or room name'),
+  refresh: RefreshSchema,
+});
+
+export const GetStateChangesSchema = z.object({
+  devices: z.array(z.string()).optional().describe('Only changes to these devices (IDs or names)'),
+  since: z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), 'Expected an ISO 8601 date')
+    .optional()
+    .describe("ISO 8601 start time (default: this caller's previous get_state_changes call)"),
+  refresh: z
+    .boolean()
+    .default(true)
+    .describe('Read current states upstream first so changes made since the last read are detected'),
+});
+
+export const executeCommandTool = defineTool({
+  name: 'execute_command',
+  description: 'Execute a Google smart-home command on devices and return per-device results in the EXECUTE response format',
+  inputSchema: ExecuteCommandSchema,
+  requiresAuth: true,
+  scope: 'control',
+  async handler({ command, params, devices, confirmation, dryRun, confirmationToken }, context) {
+    const names = await loadDeviceNames(context);
+    const known = names.devices;
+    const targeted = devices && names.resolve(devices);
+    const resolved = resolveCommand(names.withAliases(), command, params, targeted?.ids);
+    if (resolved.kind === 'clarification') {
+      return jsonResult({
+        resolved: targeted?.resolved,
+        clarification: resolved.message,
+        candidates: resolved.candidates.map(({ id, name, room }) => ({ id, name, room })),
+      });
+    }
+
+    const { execution, targets } = resolved;
+    const sensitive = sensitiveDevices(known, targets, execution);
+    const subject = { execution, devices: [...new Set(targets)].sort() };
+    const summary = {
+      resolved: targeted?.resolved,
+      ...(resolved.interpreted ? { interpretation: { ...execution, devices: targets } } : {}),
+    };
+
+    const tokens = context.account.commandTokens;
+    if (dryRun) {
+      return jsonResult({
+        dryRun: true,
+        ...summary,
+        confirmationRequired: !!tokens || (sensitive.length > 0 && !hasScope(context.caller.scopes, 'elevated')),
+        plan: await planExecution(context, known, targets, execution),
+      });
+    }
+
+    const preview = await requireCommandToken(context, subject, confirmationToken, async () => ({
+      ...summary,
+      plan: await planExecution(context, known, targets, execution),
+    }));
+    if (preview) {
+      return preview;
+    }
+    const pending = requireConfirmation(context, sensitive, subject, confirmation, !!tokens);
+    if (pending) {
+      return pending;
+    }
+
+    const response = await runExecution(context, 'execute_command', targets, execution);
+    return jsonResult({ ...summary, ...response });
+  },
+});
+
+export const queryDevicesTool = defineTool({
+  name: 'query_devices',
+  description: 'Query the current state of Google Home devices, optionally filtered by room, type, trait or online status',
+  inputSchema: QueryDevicesSchema,
+  requiresAuth: true,
+  scope: 'read',
+  async handler({ devices, refresh, ...filter }, context) {
+    const names = await loadDeviceNames(context);
+    const targeted = devices && names.resolve(devices);
+    const matching = filterDevices(
+      targeted ? names.devices.filter((device) => targeted.ids.includes(device.id)) : names.devices,
+      filter
+    );
+    if (refresh) {
+      context.states.invalidate(matching.map((device) => device.id));
+    }
+    const states = await context.devices.queryStates(matching.map((device) => device.id));
+
+    return jsonResult({
+      resolved: targeted?.resolved,
+      devices: matching.map(({ id, name, room, type, online }) => ({
+        id,
+        name,
+        room,
+        type,
+        online,
+        state: { ...states[id], online },
+      })),
+    });
+  },
+});
+
+export const getDeviceStatesTool = defineTool({
+  name: 'get_device_states',
+  description: 'Get detailed states of specific devices in the QUERY response format, keyed by device ID',
+  inputSchema: GetDeviceStatesSchema,
+  requiresAuth: true,
+  scope: 'read',
+  async handler({ deviceIds, refresh }, context) {
+    // One unknown entry shouldn't hide the states of the others
+    const { ids, resolved, unresolved } = (await loadDeviceNames(context)).resolveEach(deviceIds);
+    if (refresh) {
+      context.states.invalidate(ids);
+    }
+    const devices: Record<string, QueryDeviceResult> = await queryDevices(context.devices, ids);
+    for (const { name, error } of unresolved) {
+      devices[name] = { status: 'ERROR', errorCode: 'deviceNotFound', debugString: error };
+    }
+    return jsonResult({ resolved, devices });
+  },
+});
+
+export const getStateChangesTool = defineTool({
+  name: 'get_state_changes',
+  description:
+    'Report which device states changed (with old and new values) since this caller last asked, or since a given time',
+  inputSchema: GetStateChangesSchema,
+  requiresAuth: true,
+  scope: 'read',
+  async handler({ devices, since, refresh }, context) {
+    const deviceNames = await loadDeviceNames(context);
+    const known = deviceNames.devices;
+    const targeted = devices && deviceNames.resolve(devices);
+    const ids = targeted ? targeted.ids : known.map((device) => device.id);
+    if (refresh) {
+      context.states.invalidate(ids);
+    }
+    await context.devices.queryStates(ids);
+
+    // Each API key (or the local caller) has its own position in the change log
+    const reader = context.caller.key?.id ?? context.caller.transport;
+    const from = since ? Date.parse(since) : context.states.cursor(reader);
+    const until = Date.now();
+    context.states.setCursor(reader, until);
+
+    const names = new Map(known.map((device) => [device.id, device.name]));
+    return jsonResult({
+      resolved: targeted?.resolved,
+      since: from !== undefined ? new Date(from).toISOString() : null,
+      until: new Date(until).toISOString(),
+      changes: context.states
+        .changesSince(from ?? 0, ids)
+        .map((change) => ({ ...change, name: names.get(change.device) })),
+    });
+  },
+});
+
+export const listDevicesTool = defineTool({
+  name: 'list_devices',
+  description: 'List all available Google Home devices',
+  inputSchema: z.object({}),
+  requiresAuth: true,
+  scope: 'read',
+  async handler(_args, context) {
+    const names = await loadDeviceNames(context);
+    return jsonResult({
+      devices: names.devices.map(({ id, name, nicknames, room, type, traits, online }) => ({
+        id,
+        name,
+        nicknames,
+        aliases: names.aliasesOf(id),
+        room,
+        type,
+        traits,
+        online,
+      })),
+    });
+  },
+});
+
+export const deviceTools: ToolPlugin = (registry) => {
+  registry
+    .register(executeCommandTool)
+    .register(queryDevicesTool)
+    .register(getDeviceStatesTool)
+    .register(getStateChangesTool)
+    .register(listDevicesTool);
+};
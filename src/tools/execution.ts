@@ -0,0 +1,185 @@
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { AuditEntry } from '../audit.js';
+import {
+  CommandExecution,
+  COMMANDS,
+  Device,
+  executeCommand,
+  ExecuteCommandResult,
+  ExecuteResponse,
+  parseCommand,
+  parseExecution,
+  planCommand,
+} from '../devices/index.js';
+import { hasScope } from '../keys.js';
+import { isSensitive } from '../permissions.js';
+import { jsonResult, ToolContext } from '../registry.js';
+
+export const ConfirmationTokenSchema = z
+  .string()
+  .optional()
+  .describe('Token from a previous response, required when the server asks to confirm every command');
+
+export type ResolvedCommand =
+  | { kind: 'execution'; execution: CommandExecution; targets: string[]; interpreted: boolean }
+  | { kind: 'clarification'; message: string; candidates: Device[] };
+
+// Turns execute_command-style input into an execution and its targets.
+// Structured commands need explicit devices; anything else is parsed as
+// plain language against the known devices (narrowed by devices if given).
+export function resolveCommand(
+  known: Device[],
+  command: string,
+  params: Record<string, unknown>,
+  devices?: string[]
+): ResolvedCommand {
+  if (command in COMMANDS) {
+    if (!devices || devices.length === 0) {
+      throw new Error(`devices is required for ${command}`);
+    }
+    return { kind: 'execution', execution: parseExecution(command, params), targets: devices, interpreted: false };
+  }
+
+  const parsed = parseCommand(command, devices ? known.filter((device) => devices.includes(device.id)) : known);
+  if (parsed.kind === 'clarification') {
+    return { kind: 'clarification', message: parsed.message, candidates: parsed.candidates };
+  }
+  return {
+    kind: 'execution',
+    execution: parseExecution(parsed.execution.command, parsed.execution.params),
+    targets: parsed.devices.map((device) => device.id),
+    interpreted: true,
+  };
+}
+
+export function sensitiveDevices(known: Device[], targets: string[], execution: CommandExecution): Device[] {
+  return known.filter((device) => targets.includes(device.id) && isSensitive(device, execution));
+}
+
+// Returns a confirmation request when sensitive devices are involved and the
+// caller lacks the elevated scope, or null when the command may run. The
+// subject pins a challenge to exactly what is being confirmed. A command
+// already confirmed with a COMMAND_POLICY token needs no second challenge,
+// only the PIN if one is configured.
+export function requireConfirmation(
+  context: ToolContext,
+  sensitive: Device[],
+  subject: object,
+  confirmation?: string,
+  previewed = false
+): CallToolResult | null {
+  if (sensitive.length === 0 || hasScope(context.caller.scopes, 'elevated')) {
+    return null;
+  }
+  if (previewed && !context.account.confirmations.usesPin) {
+    return null;
+  }
+
+  const key = context.caller.key?.id;
+  const check = context.account.confirmations.check({ key, ...subject }, confirmation, key);
+  if (check.confirmed) {
+    return null;
+  }
+  const { confirmed: _confirmed, ...details } = check;
+  return jsonResult({
+    confirmationRequired: true,
+    ...details,
+    devices: sensitive.map(({ id, name, type }) => ({ id, name, type })),
+  });
+}
+
+// The planned change per device, with device names for the user
+export async function planExecution(
+  context: ToolContext,
+  known: Device[],
+  targets: string[],
+  execution: CommandExecution
+) {
+  const names = new Map(known.map((device) => [device.id, device.name]));
+  return (await planCommand(context.devices, targets, execution)).map(({ id, ...change }) => ({
+    id,
+    name: names.get(id),
+    ...change,
+  }));
+}
+
+// COMMAND_POLICY=confirm: nothing runs without a token from a preview of this
+// exact request. Every tool that runs commands goes through here. Returns the
+// preview (built by `preview`) with a fresh token, or null when the request
+// may run.
+export async function requireCommandToken(
+  context: ToolContext,
+  subject: object,
+  token: string | undefined,
+  preview: () => Promise<object>
+): Promise<CallToolResult | null> {
+  const tokens = context.account.commandTokens;
+  const tokenSubject = { key: context.caller.key?.id, ...subject };
+  if (!tokens || tokens.redeem(tokenSubject, token)) {
+    return null;
+  }
+  return jsonResult({
+    confirmationRequired: true,
+    message:
+      (token !== undefined ? 'The token is invalid, expired or for another request. ' : '') +
+      'Commands need confirmation on this server. Show the user the plan, then repeat the same call with ' +
+      'confirmationToken set to the token.',
+    confirmationToken: tokens.issue(tokenSubject),
+    expiresInSeconds: tokens.ttlMs / 1000,
+    ...(await preview()),
+  });
+}
+
+// Overall outcome of one execution: PENDING counts as success
+export function resultStatus(results: ExecuteCommandResult[]): 'SUCCESS' | 'PARTIAL' | 'ERROR' {
+  const succeeded = results.filter((result) => result.status === 'SUCCESS' || result.status === 'PENDING').length;
+  return succeeded === results.length ? 'SUCCESS' : succeeded > 0 ? 'PARTIAL' : 'ERROR';
+}
+
+// The execute path for every tool that changes device state, so each run
+// lands in the audit log with its per-device results
+export async function runExecution(
+  context: ToolContext,
+  tool: string,
+  targets: string[],
+  execution: CommandExecution,
+  details: Pick<AuditEntry, 'scene' | 'schedule'> = {}
+): Promise<ExecuteResponse> {
+  const { caller } = context;
+  const entry: AuditEntry = {
+    timestamp: new Date().toISOString(),
+    user: caller.account.id,
+    key: caller.key?.name,
+    keyId: caller.key?.id,
+    transport: caller.transport,
+    tool,
+    ...details,
+    devices: [...new Set(targets)],
+    command: execution.command,
+    params: execution.params,
+  };
+
+  let response: ExecuteResponse;
+  try {
+    response = await executeCommand(context.devices, targets, execution);
+  } catch (error) {
+    await appendAudit(context, { ...entry, error: error instanceof Error ? error.message : String(error) });
+    throw error;
+  }
+
+  await appendAudit(context, {
+    ...entry,
+    results: response.payload.commands.map(({ ids, status, errorCode }) => ({ id: ids[0], status, errorCode })),
+  });
+  return response;
+}
+
+// The command already ran, so a failed write is reported rather than turned into a tool error
+async function appendAudit(context: ToolContext, entry: AuditEntry): Promise<void> {
+  try {
+    await context.audit.append(entry);
+  } catch (error) {
+    console.error(`Failed to write audit entry: ${error}`);
+  }
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { Device } from '../devices/index.js';
+import { GroupSchema } from '../groups.js';
+import { defineTool, jsonResult, ToolPlugin } from '../registry.js';
+import { loadDeviceNames } from '../targets.js';
+
+const MembersSchema = z
+  .array(z.string())
+  .min(1)
+  .describe('Devices to add, by ID, name, nickname or alias; group and room names add their current devices');
+
+function describeMembers(known: Device[], ids: string[]) {
+  return known.filter((device) => ids.includes(device.id)).map(({ id, name, room }) => ({ id, name, room }));
+}
+
+export const listGroupsTool = defineTool({
+  name: 'list_groups',
+  description: 'List device groups and rooms. Their names can be used wherever a tool takes devices',
+  inputSchema: z.object({}),
+  requiresAuth: true,
+  scope: 'read',
+  async handler(_args, context) {
+    const known = await context.devices.listDevices();
+    const groups = await context.account.groups.list();
+    const rooms = [...new Set(known.flatMap((device) => (device.room ? [device.room] : [])))].sort();
+    return jsonResult({
+      groups: groups.map(({ name, description, devices }) => ({
+        name,
+        description,
+        devices: describeMembers(known, devices),
+      })),
+      rooms: rooms.map((room) => ({
+        room,
+        devices: known.filter((device) => device.room === room).map((device) => device.id),
+      })),
+    });
+  },
+});
+
+export const createGroupTool = defineTool({
+  name: 'create_group',
+  description: 'Create a named device group, such as "downstairs" or "outdoor lights"',
+  inputSchema: GroupSchema.extend({
+    devices: MembersSchema,
+    replace: z.boolean().optional().describe('Overwrite an existing group with the same name'),
+  }),
+  requiresAuth: true,
+  async handler({ replace, devices, ...group }, context) {
+    // Members are stored as device IDs, so a room or group added now doesn't
+    // pick up devices added to it later
+    const names = await loadDeviceNames(context);
+    const { ids, resolved } = names.resolve(devices);
+    const saved = await context.account.groups.create({ ...group, devices: ids }, replace);
+    return jsonResult({ resolved, saved: { ...saved, devices: describeMembers(names.devices, saved.devices) } });
+  },
+});
+
+export const addToGroupTool = defineTool({
+  name: 'add_to_group',
+  description: 'Add devices to an existing group',
+  inputSchema: z.object({
+    name: z.string().describe('Group name'),
+    devices: MembersSchema,
+  }),
+  requiresAuth: true,
+  async handler({ name, devices }, context) {
+    const names = await loadDeviceNames(context);
+    const { ids, resolved } = names.resolve(devices);
+    const group = await context.account.groups.add(name, ids);
+    return jsonResult({ resolved, saved: { ...group, devices: describeMembers(names.devices, group.devices) } });
+  },
+});
+
+export const deleteGroupTool = defineTool({
+  name: 'delete_group',
+  description: 'Delete a device group. The devices themselves are not affected',
+  inputSchema: z.object({
+    name: z.string().describe('Group name'),
+  }),
+  async handler({ name }, { account }) {
+    await account.groups.delete(name);
+    return jsonResult({ deleted: name });
+  },
+});
+
+export const groupTools: ToolPlugin = (registry) => {
+  registry.register(listGroupsTool).register(createGroupTool).register(addToGroupTool).register(deleteGroupTool);
+};
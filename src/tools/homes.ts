@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { defineTool, jsonResult, ToolPlugin } from '../registry.js';
+
+export const listHomesTool = defineTool({
+  name: 'list_homes',
+  description: 'List the homes available to the caller and which one device tools currently act on',
+  inputSchema: z.object({}),
+  async handler(_args, { account }) {
+    return jsonResult({ user: account.id, homes: account.listHomes() });
+  },
+});
+
+export const selectHomeTool = defineTool({
+  name: 'select_home',
+  description: 'Make a home the active one; device tools then list, query and control its devices',
+  inputSchema: z.object({
+    homeId: z.string().describe('Home ID from list_homes'),
+  }),
+  async handler({ homeId }, { account }) {
+    return jsonResult({ user: account.id, active: account.selectHome(homeId) });
+  },
+});
+
+export const homeTools: ToolPlugin = (registry) => {
+  registry.register(listHomesTool).register(selectHomeTool);
+};
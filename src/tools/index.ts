@@ -0,0 +1,18 @@
+import { ToolPlugin, ToolRegistry } from '../registry.js';
+import { aliasTools } from './aliases.js';
+import { auditTools } from './audit.js';
+import { authTools } from './auth.js';
+import { deviceTools } from './devices.js';
+import { groupTools } from './groups.js';
+import { homeTools } from './homes.js';
+import { sceneTools } from './scenes.js';
+
+export const builtinPlugins: ToolPlugin[] = [deviceTools, aliasTools, groupTools, sceneTools, homeTools, auditTools, authTools];
+
+export function createToolRegistry(plugins: ToolPlugin[] = builtinPlugins): ToolRegistry {
+  const registry = new ToolRegistry();
+  for (const plugin of plugins) {
+    registry.use(plugin);
+  }
+  return registry;
+}
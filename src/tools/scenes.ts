@@ -0,0 +1,203 @@
+import { z } from 'zod';
+import { COMMANDS, Device, ExecuteCommandResult, parseExecution } from '../devices/index.js';
+import { defineTool, jsonResult, ToolContext, ToolPlugin } from '../registry.js';
+import { checkCondition, checkSceneDelay, normalizeCommand, Scene, SceneSchema, SceneStep } from '../scenes.js';
+import { DeviceNames, loadDeviceNames } from '../targets.js';
+import {
+  ConfirmationTokenSchema,
+  planExecution,
+  requireCommandToken,
+  requireConfirmation,
+  resolveCommand,
+  ResolvedCommand,
+  resultStatus,
+  runExecution,
+  sensitiveDevices,
+} from './execution.js';
+
+type StepStatus = 'SUCCESS' | 'PARTIAL' | 'SKIPPED' | 'ERROR';
+
+interface StepResult {
+  step: number;
+  command: string;
+  devices: string[];
+  status: StepStatus;
+  reason?: string;
+  results?: ExecuteCommandResult[];
+}
+
+type ResolvedStep = SceneStep & { resolved: Extract<ResolvedCommand, { kind: 'execution' }> };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Resolves every step before anything runs, so a typo in step 5 doesn't
+// leave the home half-way through a scene. Device names, groups and rooms
+// are resolved as they are when the scene runs.
+function resolveSteps(scene: Scene, names: DeviceNames): ResolvedStep[] {
+  return scene.steps.map((step, index) => {
+    try {
+      const devices = step.devices && names.resolve(step.devices).ids;
+      const resolved = resolveCommand(names.withAliases(), normalizeCommand(step.command), step.params, devices);
+      if (resolved.kind === 'clarification') {
+        throw new Error(resolved.message);
+      }
+      return { ...step, resolved };
+    } catch (error) {
+      throw new Error(`Step ${index + 1}: ${error instanceof Error ? error.message : error}`);
+    }
+  });
+}
+
+async function unmetCondition(context: ToolContext, names: DeviceNames, step: SceneStep): Promise<string | null> {
+  for (const condition of step.when ?? []) {
+    let device: Device;
+    try {
+      ({ device } = names.resolveOne(condition.device));
+    } catch (error) {
+      return `condition device: ${error instanceof Error ? error.message : error}`;
+    }
+    context.states.invalidate([device.id]);
+    const states = await context.devices.queryStates([device.id]);
+    if (!checkCondition(condition, { ...states[device.id], online: device.online })) {
+      return `condition on ${condition.device}.${condition.state} not met`;
+    }
+  }
+  return null;
+}
+
+export const listScenesTool = defineTool({
+  name: 'list_scenes',
+  description: 'List saved scenes (named multi-step routines) and their steps',
+  inputSchema: z.object({}),
+  async handler(_args, { account }) {
+    return jsonResult({ scenes: await account.scenes.list() });
+  },
+});
+
+export const runSceneTool = defineTool({
+  name: 'run_scene',
+  description:
+    'Run a saved scene step by step. Steps are audited and permission-checked like execute_command; results are reported per step',
+  inputSchema: z.object({
+    name: z.string().describe('Scene name from list_scenes'),
+    confirmation: z
+      .string()
+      .optional()
+      .describe('Confirmation PIN or challenge, required when a step controls security devices without the elevated scope'),
+    confirmationToken: ConfirmationTokenSchema,
+  }),
+  requiresAuth: true,
+  async handler({ name, confirmation, confirmationToken }, context) {
+    const scene = await context.account.scenes.get(name);
+    // Hand-edited scenes files can exceed the limit create_scene enforces
+    checkSceneDelay(scene);
+    const names = await loadDeviceNames(context);
+    const known = names.devices;
+    const steps = resolveSteps(scene, names);
+    const subject = { scene: scene.name, steps: steps.map(({ resolved }) => [resolved.execution, resolved.targets]) };
+
+    // Planned against current states; delays and conditions still apply when the scene runs
+    const preview = await requireCommandToken(context, subject, confirmationToken, async () => ({
+      scene: scene.name,
+      steps: await Promise.all(
+        steps.map(async ({ resolved: { execution, targets }, delaySeconds, when }, index) => ({
+          step: index + 1,
+          command: execution.command,
+          delaySeconds,
+          when,
+          plan: await planExecution(context, known, targets, execution),
+        }))
+      ),
+    }));
+    if (preview) {
+      return preview;
+    }
+
+    const sensitive = steps.flatMap(({ resolved }) => sensitiveDevices(known, resolved.targets, resolved.execution));
+    const pending = requireConfirmation(
+      context,
+      [...new Map(sensitive.map((device) => [device.id, device])).values()],
+      subject,
+      confirmation,
+      !!context.account.commandTokens
+    );
+    if (pending) {
+      return pending;
+    }
+
+    const results: StepResult[] = [];
+    for (const [index, step] of steps.entries()) {
+      const { execution, targets } = step.resolved;
+      const result: StepResult = { step: index + 1, command: execution.command, devices: targets, status: 'SUCCESS' };
+      results.push(result);
+
+      if (step.delaySeconds) {
+        await sleep(step.delaySeconds * 1000);
+      }
+
+      try {
+        const unmet = await unmetCondition(context, names, step);
+        if (unmet) {
+          result.status = 'SKIPPED';
+          result.reason = unmet;
+          continue;
+        }
+
+        const response = await runExecution(context, 'run_scene', targets, execution, { scene: scene.name });
+        result.results = response.payload.commands;
+        result.status = resultStatus(result.results);
+      } catch (error) {
+        result.status = 'ERROR';
+        result.reason = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    const ran = results.filter((result) => result.status !== 'SKIPPED');
+    const status = ran.every((result) => result.status === 'SUCCESS')
+      ? 'SUCCESS'
+      : ran.some((result) => result.status === 'SUCCESS' || result.status === 'PARTIAL')
+        ? 'PARTIAL'
+        : 'ERROR';
+    return jsonResult({ scene: scene.name, status, steps: results });
+  },
+});
+
+export const createSceneTool = defineTool({
+  name: 'create_scene',
+  description: 'Save a scene: an ordered list of commands with optional delays and conditions on current device state',
+  inputSchema: SceneSchema.extend({
+    replace: z.boolean().optional().describe('Overwrite an existing scene with the same name'),
+  }),
+  async handler({ replace, ...scene }, { account }) {
+    // Catch bad parameters now rather than when the scene runs
+    scene.steps.forEach((step, index) => {
+      const command = normalizeCommand(step.command);
+      if (command in COMMANDS) {
+        try {
+          parseExecution(command, step.params);
+        } catch (error) {
+          throw new Error(`Step ${index + 1}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+    });
+
+    await account.scenes.save(scene, replace);
+    return jsonResult({ saved: scene });
+  },
+});
+
+export const deleteSceneTool = defineTool({
+  name: 'delete_scene',
+  description: 'Delete a saved scene',
+  inputSchema: z.object({
+    name: z.string().describe('Scene name'),
+  }),
+  async handler({ name }, { account }) {
+    await account.scenes.delete(name);
+    return jsonResult({ deleted: name });
+  },
+});
+
+export const sceneTools: ToolPlugin = (registry) => {
+  registry.register(listScenesTool).register(runSceneTool).register(createSceneTool).register(deleteSceneTool);
+};
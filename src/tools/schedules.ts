@@ -0,0 +1,149 @@
+import { z } from 'zod';
+import { defineTool, jsonResult, ToolPlugin } from '../registry.js';
+import { describeTrigger, parseDelay, parseTime, Schedule, Scheduler, ScheduleTrigger } from '../scheduler/index.js';
+import { loadDeviceNames } from '../targets.js';
+import {
+  ConfirmationTokenSchema,
+  planExecution,
+  requireCommandToken,
+  requireConfirmation,
+  resolveCommand,
+  sensitiveDevices,
+} from './execution.js';
+
+export const ScheduleCommandSchema = z
+  .object({
+    command: z
+      .string()
+      .describe('Command name (e.g. "action.devices.commands.OnOff") or a plain-language instruction'),
+    params: z.record(z.unknown()).default({}).describe('Command parameters'),
+    devices: z
+      .array(z.string())
+      .optional()
+      .describe('Target devices (IDs, names, aliases, groups or rooms); required for structured commands'),
+    at: z.string().optional().describe('Run once at HH:MM (next occurrence, server time zone) or an ISO 8601 date'),
+    delay: z.string().optional().describe('Run once after a delay, e.g. "20m", "1h30m"'),
+    cron: z.string().optional().describe('Run repeatedly on a cron expression, e.g. "0 23 * * *"'),
+    sun: z
+      .object({
+        event: z.enum(['sunrise', 'sunset']),
+        offsetMinutes: z.number().int().min(-720).max(720).default(0).describe('Negative runs before the event'),
+      })
+      .optional()
+      .describe('Run daily relative to sunrise or sunset at the home (needs LATITUDE and LONGITUDE)'),
+    confirmation: z
+      .string()
+      .optional()
+      .describe('Confirmation PIN or challenge, required for security devices without the elevated scope'),
+    confirmationToken: ConfirmationTokenSchema,
+  })
+  .refine((args) => [args.at, args.delay, args.cron, args.sun].filter((value) => value !== undefined).length === 1, {
+    message: 'Give exactly one of at, delay, cron or sun',
+  });
+
+type ScheduleCommandArgs = z.infer<typeof ScheduleCommandSchema>;
+
+function toTrigger({ at, delay, cron, sun }: ScheduleCommandArgs): ScheduleTrigger {
+  if (at !== undefined) {
+    return { type: 'once', at: parseTime(at).toISOString() };
+  }
+  if (delay !== undefined) {
+    return { type: 'once', at: new Date(Date.now() + parseDelay(delay)).toISOString() };
+  }
+  if (cron !== undefined) {
+    return { type: 'cron', cron };
+  }
+  return { type: 'sun', event: sun!.event, offsetMinutes: sun!.offsetMinutes };
+}
+
+function summarize(schedule: Schedule) {
+  const { keyId: _keyId, user: _user, ...rest } = schedule;
+  return { ...rest, when: describeTrigger(schedule.trigger) };
+}
+
+// The scheduler only exists in the long-running server, so these tools are
+// registered there rather than with the built-in plugins
+export function scheduleTools(scheduler: Scheduler): ToolPlugin {
+  const scheduleCommandTool = defineTool({
+    name: 'schedule_command',
+    description:
+      'Schedule a command for later: once at a time or after a delay, repeatedly on a cron expression, or daily around sunrise/sunset. ' +
+      'The command is resolved now and runs later with the same permissions; runs appear in the audit log',
+    inputSchema: ScheduleCommandSchema,
+    requiresAuth: true,
+    async handler(args, context) {
+      const trigger = toTrigger(args);
+      const names = await loadDeviceNames(context);
+      const known = names.devices;
+      const targeted = args.devices && names.resolve(args.devices);
+      const resolved = resolveCommand(names.withAliases(), args.command, args.params, targeted?.ids);
+      if (resolved.kind === 'clarification') {
+        return jsonResult({
+          resolved: targeted?.resolved,
+          clarification: resolved.message,
+          candidates: resolved.candidates.map(({ id, name, room }) => ({ id, name, room })),
+        });
+      }
+
+      const { execution, targets } = resolved;
+      // The raw timing, since a delay resolves to a different time on the confirming call
+      const subject = {
+        when: { at: args.at, delay: args.delay, cron: args.cron, sun: args.sun },
+        execution,
+        devices: [...new Set(targets)].sort(),
+      };
+      // The plan is against current states, so it shows what the command would change if it ran now
+      const preview = await requireCommandToken(context, subject, args.confirmationToken, async () => ({
+        resolved: targeted?.resolved,
+        when: describeTrigger(trigger),
+        plan: await planExecution(context, known, targets, execution),
+      }));
+      if (preview) {
+        return preview;
+      }
+
+      const pending = requireConfirmation(
+        context,
+        sensitiveDevices(known, targets, execution),
+        subject,
+        args.confirmation,
+        !!context.account.commandTokens
+      );
+      if (pending) {
+        return pending;
+      }
+
+      const schedule = await scheduler.add(context.caller, context.account.activeHome, {
+        description: args.command,
+        trigger,
+        execution,
+        devices: targets,
+      });
+      return jsonResult({ resolved: targeted?.resolved, scheduled: summarize(schedule) });
+    },
+  });
+
+  const listSchedulesTool = defineTool({
+    name: 'list_schedules',
+    description: "List the caller's pending and recurring schedules with their next run and last result",
+    inputSchema: z.object({}),
+    async handler(_args, { account }) {
+      return jsonResult({ schedules: scheduler.list(account.id).map(summarize) });
+    },
+  });
+
+  const cancelScheduleTool = defineTool({
+    name: 'cancel_schedule',
+    description: 'Cancel a schedule by ID',
+    inputSchema: z.object({
+      id: z.string().describe('Schedule ID from list_schedules'),
+    }),
+    async handler({ id }, { account }) {
+      return jsonResult({ cancelled: summarize(await scheduler.cancel(account.id, id)) });
+    },
+  });
+
+  return (registry) => {
+    registry.register(scheduleCommandTool).register(listSchedulesTool).register(cancelScheduleTool);
+  };
+}
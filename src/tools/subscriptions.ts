@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { defineTool, jsonResult, ToolPlugin } from '../registry.js';
+import { SubscriptionManager } from '../subscriptions.js';
+import { loadDeviceNames } from '../targets.js';
+
+// Topic of subscriptions made with these tools, as opposed to resource subscriptions
+export const DEVICE_TOPIC = 'subscribe_device';
+
+// Only connection-oriented transports can receive notifications, so these
+// tools are registered by the long-running server
+export function subscriptionTools(subscriptions: SubscriptionManager): ToolPlugin {
+  const subscribeDeviceTool = defineTool({
+    name: 'subscribe_device',
+    description:
+      'Get notified on this connection when the state of these devices changes (door opened, thermostat changed). ' +
+      'Notifications arrive as MCP log messages with the old and new values',
+    inputSchema: z.object({
+      devices: z.array(z.string()).min(1).describe('Devices to watch, by ID, name, alias, group or room'),
+    }),
+    requiresAuth: true,
+    scope: 'read',
+    async handler({ devices }, context) {
+      const { ids, resolved } = (await loadDeviceNames(context)).resolve(devices);
+      return jsonResult({ resolved, subscribed: await subscriptions.subscribe(context, ids, DEVICE_TOPIC) });
+    },
+  });
+
+  const unsubscribeDeviceTool = defineTool({
+    name: 'unsubscribe_device',
+    description: 'Stop state change notifications for these devices, or for all devices when none are given',
+    inputSchema: z.object({
+      devices: z.array(z.string()).optional().describe('Devices to stop watching, by ID or name (default: all)'),
+    }),
+    scope: 'read',
+    async handler({ devices }, context) {
+      const targeted = devices && (await loadDeviceNames(context)).resolve(devices);
+      return jsonResult({
+        resolved: targeted?.resolved,
+        subscribed: subscriptions.unsubscribe(context, DEVICE_TOPIC, targeted?.ids),
+      });
+    },
+  });
+
+  return (registry) => {
+    registry.register(subscribeDeviceTool).register(unsubscribeDeviceTool);
+  };
+}
@@ -0,0 +1,125 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ClientRequestSchema,
+  ErrorCode,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  JSONRPCRequest,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+export interface JsonRpcErrorResponse {
+  jsonrpc: '2.0';
+  id: RequestId | null;
+  error: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcReply = JSONRPCMessage | JsonRpcErrorResponse;
+
+// Param schemas for every method a client may call, so malformed params can
+// be answered with -32602 instead of the SDK's generic internal error.
+const CLIENT_REQUESTS = new Map<string, z.ZodTypeAny>(
+  ClientRequestSchema.options.map((schema) => [schema.shape.method.value, schema])
+);
+
+function errorResponse(id: RequestId | null, code: number, message: string, data?: unknown): JsonRpcErrorResponse {
+  return { jsonrpc: '2.0', id, error: data === undefined ? { code, message } : { code, message, data } };
+}
+
+// Hands single messages to the server and resolves with its reply. Anything
+// the server initiates (notifications, sampling requests) is dropped, since
+// a plain request/response exchange has nowhere to deliver it.
+class DispatchTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private pending = new Map<RequestId, (reply: JSONRPCMessage) => void>();
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      const resolve = this.pending.get(message.id);
+      this.pending.delete(message.id);
+      resolve?.(message);
+    }
+  }
+
+  async close(): Promise<void> {
+    this.onclose?.();
+  }
+
+  isPending(id: RequestId): boolean {
+    return this.pending.has(id);
+  }
+
+  request(request: JSONRPCRequest): Promise<JSONRPCMessage> {
+    return new Promise((resolve) => {
+      this.pending.set(request.id, resolve);
+      this.onmessage?.(request);
+    });
+  }
+
+  notify(message: JSONRPCMessage): void {
+    this.onmessage?.(message);
+  }
+}
+
+async function dispatchOne(transport: DispatchTransport, payload: unknown): Promise<JsonRpcReply | undefined> {
+  const parsed = JSONRPCMessageSchema.safeParse(payload);
+  if (!parsed.success) {
+    const id = (payload as { id?: unknown } | null)?.id;
+    const requestId = typeof id === 'string' || typeof id === 'number' ? id : null;
+    return errorResponse(requestId, ErrorCode.InvalidRequest, 'Invalid Request');
+  }
+
+  const message = parsed.data;
+  if (!isJSONRPCRequest(message)) {
+    transport.notify(message);
+    return undefined;
+  }
+
+  if (transport.isPending(message.id)) {
+    return errorResponse(message.id, ErrorCode.InvalidRequest, `Duplicate request id: ${message.id}`);
+  }
+
+  const schema = CLIENT_REQUESTS.get(message.method);
+  if (schema) {
+    const { jsonrpc: _jsonrpc, id: _id, ...request } = message;
+    const result = schema.safeParse(request);
+    if (!result.success) {
+      return errorResponse(message.id, ErrorCode.InvalidParams, 'Invalid params', result.error.issues);
+    }
+  }
+
+  return transport.request(message);
+}
+
+// Runs a JSON-RPC 2.0 payload (a single message or a batch) through the
+// server's registered MCP handlers. Returns undefined when nothing needs a
+// reply, i.e. the payload held only notifications.
+export async function dispatchJsonRpc(server: Server, payload: unknown): Promise<JsonRpcReply | JsonRpcReply[] | undefined> {
+  const transport = new DispatchTransport();
+  await server.connect(transport);
+
+  try {
+    if (!Array.isArray(payload)) {
+      return await dispatchOne(transport, payload);
+    }
+    if (payload.length === 0) {
+      return errorResponse(null, ErrorCode.InvalidRequest, 'Invalid Request');
+    }
+
+    const replies = await Promise.all(payload.map((message) => dispatchOne(transport, message)));
+    const sent = replies.filter((reply): reply is JsonRpcReply => reply !== undefined);
+    return sent.length > 0 ? sent : undefined;
+  } finally {
+    await server.close();
+  }
+}
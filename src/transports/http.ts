@@ -0,0 +1,165 @@
+import { randomUUID } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { ErrorCode, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface StreamableHttpOptions<C> {
+  // Stateless mode creates a fresh server per POST and issues no session ids.
+  // Used by the Cloud Function, where instances don't share memory.
+  stateless?: boolean;
+  // Identifies who owns a session; later requests must resolve to the same owner
+  ownerOf?: (caller: C) => unknown;
+  // Sessions with no request for this long are closed (default 30 minutes, 0 keeps them until DELETE)
+  idleTimeoutMs?: number;
+}
+
+type HttpRequest = IncomingMessage & { body?: unknown };
+
+function sendError(res: ServerResponse, status: number, code: number, message: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code, message } }));
+}
+
+interface Session<C> {
+  transport: StreamableHTTPServerTransport;
+  caller: C;
+  lastSeen: number;
+  // Requests still being answered, such as a GET SSE stream. Not idle while any are open.
+  open: number;
+}
+
+const DEFAULT_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// MCP Streamable HTTP endpoint: POST carries JSON-RPC messages, GET opens an
+// SSE stream for server-initiated messages and DELETE ends the session.
+// Sessions are bound to the caller that initialized them, and closed when
+// the client ends them or after they sit idle.
+export class StreamableHttpEndpoint<C> {
+  private sessions = new Map<string, Session<C>>();
+  private sweeper?: NodeJS.Timeout;
+
+  constructor(private createServer: (caller: C) => Server, private options: StreamableHttpOptions<C> = {}) {
+    const idleTimeoutMs = this.idleTimeoutMs;
+    if (!options.stateless && idleTimeoutMs > 0) {
+      this.sweeper = setInterval(() => this.closeIdle(), Math.min(idleTimeoutMs, MAX_SWEEP_INTERVAL_MS));
+      this.sweeper.unref();
+    }
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  async handle(req: HttpRequest, res: ServerResponse, caller: C): Promise<void> {
+    if (this.options.stateless) {
+      await this.handleStateless(req, res, caller);
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const existing = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+
+    // Another caller's session id is treated as unknown rather than revealing it exists
+    if (existing && this.ownerOf(existing.caller) === this.ownerOf(caller)) {
+      await this.forward(existing, req, res);
+      return;
+    }
+    if (sessionId) {
+      sendError(res, 404, ErrorCode.ConnectionClosed, 'Session not found');
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(req.body)) {
+      sendError(res, 400, ErrorCode.ConnectionClosed, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, session);
+      },
+    });
+    const session: Session<C> = { transport, caller, lastSeen: Date.now(), open: 0 };
+
+    const server = this.createServer(caller);
+    await server.connect(transport);
+    // connect() takes over transport.onclose, so the cleanup is chained after it
+    const onclose = transport.onclose;
+    transport.onclose = () => {
+      onclose?.();
+      if (transport.sessionId && this.sessions.get(transport.sessionId) === session) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    try {
+      await this.forward(session, req, res);
+    } finally {
+      // A rejected initialize (wrong Accept header, bad body) never gets a
+      // session id, so nothing else would close its server
+      if (!transport.sessionId) {
+        await server.close();
+      }
+    }
+  }
+
+  async closeAll(): Promise<void> {
+    clearInterval(this.sweeper);
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(({ transport }) => transport.close()));
+  }
+
+  private get idleTimeoutMs(): number {
+    return this.options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+  }
+
+  private async forward(session: Session<C>, req: HttpRequest, res: ServerResponse): Promise<void> {
+    session.open++;
+    session.lastSeen = Date.now();
+    res.on('close', () => {
+      session.open--;
+      session.lastSeen = Date.now();
+    });
+    await session.transport.handleRequest(req, res, req.body);
+  }
+
+  // Closing the transport also closes its server, which ends the session's subscriptions
+  private closeIdle(): void {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [id, session] of this.sessions) {
+      if (session.open === 0 && session.lastSeen <= cutoff) {
+        this.sessions.delete(id);
+        session.transport.close().catch((error) => {
+          console.error(`Failed to close idle session ${id}:`, error);
+        });
+      }
+    }
+  }
+
+  private ownerOf(caller: C): unknown {
+    return this.options.ownerOf ? this.options.ownerOf(caller) : caller;
+  }
+
+  private async handleStateless(req: HttpRequest, res: ServerResponse, caller: C): Promise<void> {
+    if (req.method !== 'POST') {
+      res.setHeader('Allow', 'POST');
+      sendError(res, 405, ErrorCode.ConnectionClosed, 'Method not allowed');
+      return;
+    }
+
+    const server = this.createServer(caller);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableJsonResponse: true,
+    });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, req.body);
+  }
+}
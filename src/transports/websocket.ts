@@ -0,0 +1,214 @@
+import { randomUUID } from 'crypto';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+  RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+import { RawData, WebSocket } from 'ws';
+
+export interface WebSocketTransportOptions {
+  // Interval between pings. A connection that misses a pong is terminated.
+  heartbeatIntervalMs?: number;
+  // Checked before every incoming frame and on every heartbeat. The
+  // connection is closed once it resolves false (e.g. the API key was revoked).
+  authorize?: () => Promise<boolean>;
+}
+
+// Policy violation: the credentials the connection was opened with are no longer valid
+const UNAUTHORIZED_CLOSE_CODE = 1008;
+
+interface ErrorFrame {
+  jsonrpc: '2.0';
+  id: RequestId | null;
+  error: { code: number; message: string };
+}
+
+interface PendingBatch {
+  ids: Set<RequestId>;
+  responses: Array<JSONRPCMessage | ErrorFrame>;
+}
+
+function errorFrame(id: RequestId | null, code: number, message: string): ErrorFrame {
+  return { jsonrpc: '2.0', id, error: { code, message } };
+}
+
+function invalidRequest(value: unknown): ErrorFrame {
+  const id = (value as { id?: unknown } | null)?.id;
+  const requestId = typeof id === 'string' || typeof id === 'number' ? id : null;
+  return errorFrame(requestId, ErrorCode.InvalidRequest, 'Invalid Request');
+}
+
+// Server side of an MCP connection over a single WebSocket. Each text frame
+// carries one JSON-RPC message or a batch (array) of them.
+export class WebSocketServerTransport implements Transport {
+  readonly sessionId = randomUUID();
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private batches: PendingBatch[] = [];
+  private heartbeat: NodeJS.Timeout | null = null;
+  private alive = true;
+  private closed = false;
+  // Frames are handled one at a time, in order, since each waits for authorize
+  private frames: Promise<void> = Promise.resolve();
+
+  constructor(private socket: WebSocket, private options: WebSocketTransportOptions = {}) {}
+
+  async start(): Promise<void> {
+    this.socket.on('message', (data, isBinary) => {
+      // A frame that fails is reported without holding up the ones behind it
+      this.frames = this.frames
+        .then(() => this.receive(data, isBinary))
+        .catch((error) => this.onerror?.(error instanceof Error ? error : new Error(String(error))));
+    });
+    this.socket.on('pong', () => {
+      this.alive = true;
+    });
+    this.socket.on('error', (error) => this.onerror?.(error));
+    this.socket.on('close', () => this.teardown());
+
+    const interval = this.options.heartbeatIntervalMs ?? 30000;
+    if (interval > 0) {
+      this.heartbeat = setInterval(() => {
+        if (!this.alive) {
+          this.socket.terminate();
+          return;
+        }
+        this.alive = false;
+        this.socket.ping();
+        void this.authorize();
+      }, interval);
+    }
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+      const batch = this.batches.find((pending) => pending.ids.has(message.id));
+      if (batch) {
+        batch.ids.delete(message.id);
+        batch.responses.push(message);
+        if (batch.ids.size === 0) {
+          this.batches.splice(this.batches.indexOf(batch), 1);
+          this.write(batch.responses);
+        }
+        return;
+      }
+    }
+    this.write(message);
+  }
+
+  async close(): Promise<void> {
+    this.socket.close();
+    this.teardown();
+  }
+
+  private async receive(data: RawData, isBinary: boolean): Promise<void> {
+    if (!(await this.authorize())) {
+      return;
+    }
+    if (isBinary) {
+      this.write(errorFrame(null, ErrorCode.InvalidRequest, 'Binary frames are not supported'));
+      return;
+    }
+    this.handleFrame(data.toString());
+  }
+
+  // False, with the connection closed, once options.authorize turns the caller
+  // away. A failing check counts as a refusal.
+  private async authorize(): Promise<boolean> {
+    if (this.closed) {
+      return false;
+    }
+    if (!this.options.authorize) {
+      return true;
+    }
+
+    let authorized: boolean;
+    try {
+      authorized = await this.options.authorize();
+    } catch (error) {
+      this.onerror?.(error instanceof Error ? error : new Error(String(error)));
+      authorized = false;
+    }
+    if (!authorized && !this.closed) {
+      this.socket.close(UNAUTHORIZED_CLOSE_CODE, 'API key revoked or expired');
+      this.teardown();
+    }
+    return authorized;
+  }
+
+  private handleFrame(frame: string): void {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(frame);
+    } catch {
+      this.write(errorFrame(null, ErrorCode.ParseError, 'Parse error'));
+      return;
+    }
+
+    if (!Array.isArray(payload)) {
+      const result = JSONRPCMessageSchema.safeParse(payload);
+      if (result.success) {
+        this.onmessage?.(result.data);
+      } else {
+        this.write(invalidRequest(payload));
+      }
+      return;
+    }
+
+    if (payload.length === 0) {
+      this.write(errorFrame(null, ErrorCode.InvalidRequest, 'Invalid Request'));
+      return;
+    }
+
+    // Replies to a batch go back as one array once every request is answered
+    const batch: PendingBatch = { ids: new Set(), responses: [] };
+    const messages: JSONRPCMessage[] = [];
+    for (const item of payload) {
+      const result = JSONRPCMessageSchema.safeParse(item);
+      if (!result.success) {
+        batch.responses.push(invalidRequest(item));
+        continue;
+      }
+      messages.push(result.data);
+      if (isJSONRPCRequest(result.data)) {
+        batch.ids.add(result.data.id);
+      }
+    }
+
+    if (batch.ids.size > 0) {
+      this.batches.push(batch);
+    } else if (batch.responses.length > 0) {
+      this.write(batch.responses);
+    }
+    for (const message of messages) {
+      this.onmessage?.(message);
+    }
+  }
+
+  private write(payload: unknown): void {
+    if (this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(payload));
+    }
+  }
+
+  private teardown(): void {
+    if (this.closed) {
+      return;
+    }
+    this.closed = true;
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    this.batches = [];
+    this.onclose?.();
+  }
+}
@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { Account, AccountDirectory, Caller, HomeSummary } from '../src/accounts.js';
+import { defaultFixture } from '../src/devices/fixture.js';
+import { ApiKeyStore } from '../src/keys.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { resultJson } from './helpers.js';
+
+const registry = createToolRegistry();
+const caller = (account: Account): Caller => ({ account, transport: 'ws', scopes: ['read', 'control'] });
+
+describe('accounts', () => {
+  let dir: string;
+  let accounts: AccountDirectory;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'google-home-mcp-'));
+    // A cabin with only the porch light
+    const cabin = path.join(dir, 'cabin.json');
+    const devices = defaultFixture.devices.filter(({ id }) => id === 'light-porch');
+    await writeFile(cabin, JSON.stringify({ devices }));
+
+    await writeFile(
+      path.join(dir, 'users.json'),
+      JSON.stringify({
+        users: [
+          { id: 'alice', homes: [{ id: 'main' }, { id: 'cabin', name: 'Cabin', env: { FAKE_DEVICES_FILE: cabin } }] },
+          { id: 'bob' },
+        ],
+      })
+    );
+    accounts = await AccountDirectory.fromEnv({
+      USERS_FILE: path.join(dir, 'users.json'),
+      API_KEYS_FILE: path.join(dir, 'api-keys.json'),
+      DEVICE_BACKEND: 'fake',
+      TOKEN_STORE: 'memory',
+      AUDIT_LOG: 'memory',
+      SCENES_FILE: path.join(dir, 'scenes.yaml'),
+    });
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('map each bearer token to its own account', async () => {
+    const alice = await accounts.keys.create({ name: 'alice-laptop', user: 'alice', scopes: ['read'] });
+    const bob = await accounts.keys.create({ name: 'bob-phone', user: 'bob', scopes: ['read', 'control'] });
+
+    const aliceCaller = await accounts.authenticate(`Bearer ${alice.key}`, 'ws');
+    assert.equal(aliceCaller?.account.id, 'alice');
+    assert.deepEqual(aliceCaller?.scopes, ['read']);
+    assert.equal((await accounts.authenticate(`Bearer ${bob.key}`, 'http'))?.account.id, 'bob');
+
+    assert.equal(await accounts.authenticate('Bearer not-a-key', 'ws'), null);
+    assert.equal(await accounts.authenticate(alice.key, 'ws'), null);
+    assert.equal(await accounts.authenticate(undefined, 'ws'), null);
+  });
+
+  it('reject keys whose user is no longer configured', async () => {
+    const keys = new ApiKeyStore(path.join(dir, 'api-keys.json'));
+    const { key } = await keys.create({ name: 'carol', user: 'carol', scopes: ['read'] });
+    assert.equal(await accounts.authenticate(`Bearer ${key}`, 'ws'), null);
+  });
+
+  it('keep per-user files apart and ignore shared file settings', () => {
+    const [alice, bob] = accounts.list();
+    const root = path.resolve(import.meta.dirname, '..');
+    assert.equal(alice.scenes.filePath, path.join(root, 'scenes-alice.yaml'));
+    assert.equal(bob.scenes.filePath, path.join(root, 'scenes-bob.yaml'));
+    assert.notEqual(alice.groups.filePath, bob.groups.filePath);
+    assert.notEqual(alice.aliases.filePath, bob.aliases.filePath);
+    assert.notEqual(alice.auth, bob.auth);
+  });
+
+  it('give each account its own devices and active home', async () => {
+    const alice = accounts.get('alice')!;
+    const bob = accounts.get('bob')!;
+
+    const porch = { command: 'turn on the porch light' };
+    resultJson(await registry.callTool('execute_command', porch, alice.createContext(caller(alice))));
+    const bobStates = await bob.createContext(caller(bob)).devices.queryStates(['light-porch']);
+    assert.equal(bobStates['light-porch'].on, false);
+
+    const { active } = resultJson<{ active: HomeSummary }>(
+      await registry.callTool('select_home', { homeId: 'cabin' }, alice.createContext(caller(alice)))
+    );
+    assert.deepEqual(active, { id: 'cabin', name: 'Cabin', backend: 'fake', active: true });
+    const devices = await alice.createContext(caller(alice)).devices.listDevices();
+    assert.deepEqual(devices.map((device) => device.id), ['light-porch']);
+    assert.equal(bob.activeHome, 'default');
+
+    const unknown = await registry.callTool('select_home', { homeId: 'moon' }, alice.createContext(caller(alice)));
+    assert.equal(unknown.isError, true);
+  });
+});
@@ -0,0 +1,49 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Alias } from '../src/aliases.js';
+import { ToolContext } from '../src/registry.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { createTestHome, resultJson, resultText, TestHome } from './helpers.js';
+
+const registry = createToolRegistry();
+
+describe('device aliases', () => {
+  let home: TestHome;
+  let context: ToolContext;
+  const call = (name: string, args: object) => registry.callTool(name, args, context);
+  const listed = async () => resultJson<{ aliases: Array<Alias & { name: string }> }>(await call('list_aliases', {}));
+
+  beforeEach(async () => {
+    home = await createTestHome();
+    context = home.context();
+  });
+  afterEach(() => home.cleanup());
+
+  it('point an alias at one device, moving it when set again', async () => {
+    resultJson(await call('set_alias', { alias: 'Emma light', device: 'Bedside Lamp' }));
+    resultJson(await call('set_alias', { alias: 'emma LIGHT', device: 'reading lamp' }));
+    const { aliases } = await listed();
+    assert.deepEqual(aliases, [
+      { alias: 'emma LIGHT', device: 'lamp-living-room', name: 'Living Room Lamp', room: 'Living Room' },
+    ]);
+
+    assert.deepEqual(resultJson(await call('delete_alias', { alias: 'Emma Light' })), {
+      deleted: { alias: 'emma LIGHT', device: 'lamp-living-room' },
+    });
+    assert.match(resultText(await call('delete_alias', { alias: 'Emma Light' })), /Unknown alias: Emma Light/);
+  });
+
+  it('keep every alias set at the same time', async () => {
+    const { aliases } = home.accounts.primary();
+    const names = Array.from({ length: 10 }, (_value, index) => `light ${index}`);
+    await Promise.all(names.map((alias) => aliases.set({ alias, device: 'light-porch' })));
+    assert.deepEqual((await aliases.list()).map(({ alias }) => alias).sort(), names);
+
+    await Promise.all([
+      aliases.delete('light 0'),
+      aliases.delete('light 1'),
+      aliases.set({ alias: 'porch', device: 'light-porch' }),
+    ]);
+    assert.equal((await aliases.list()).length, 9);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { AuditEntry, JsonlAuditSink } from '../src/audit.js';
+import { ToolContext } from '../src/registry.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { createTestHome, resultJson, TestHome } from './helpers.js';
+
+const registry = createToolRegistry();
+
+const entry = (timestamp: string, overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  timestamp,
+  user: 'default',
+  transport: 'ws',
+  tool: 'execute_command',
+  devices: ['light-porch'],
+  command: 'action.devices.commands.OnOff',
+  params: { on: true },
+  ...overrides,
+});
+
+describe('audit log', () => {
+  let home: TestHome;
+  let context: ToolContext;
+  const auditLog = async (query: object = {}) =>
+    resultJson<{ entries: AuditEntry[] }>(await registry.callTool('get_audit_log', query, context)).entries;
+
+  beforeEach(async () => {
+    home = await createTestHome();
+    context = home.accounts.primary().createContext((await home.createKey(['read', 'control'], 'http')).caller);
+  });
+  afterEach(() => home.cleanup());
+
+  it('records who ran which command and the result per device', async () => {
+    const args = {
+      command: 'action.devices.commands.OnOff',
+      params: { on: true },
+      devices: ['light-porch', 'plug-guest-room'],
+    };
+    await registry.callTool('execute_command', args, context);
+
+    const [logged] = await auditLog();
+    assert.equal(logged.user, 'default');
+    assert.equal(logged.key, 'test-1');
+    assert.equal(logged.keyId, context.caller.key?.id);
+    assert.equal(logged.transport, 'http');
+    assert.equal(logged.tool, 'execute_command');
+    assert.deepEqual(logged.devices, ['light-porch', 'plug-guest-room']);
+    assert.deepEqual(logged.params, { on: true });
+    assert.deepEqual(logged.results, [
+      { id: 'light-porch', status: 'SUCCESS' },
+      { id: 'plug-guest-room', status: 'OFFLINE', errorCode: 'deviceOffline' },
+    ]);
+    assert.ok(!Number.isNaN(Date.parse(logged.timestamp)));
+  });
+
+  it('does not record reads, dry runs or unconfirmed commands', async () => {
+    await registry.callTool('get_device_states', { deviceIds: ['light-porch'] }, context);
+    await registry.callTool('execute_command', { command: 'turn on the porch light', dryRun: true }, context);
+    await registry.callTool('execute_command', { command: 'unlock the front door' }, context);
+    assert.deepEqual(await auditLog(), []);
+  });
+
+  it('filters by device, caller and time, newest first, within the caller account', async () => {
+    const audit = home.accounts.audit;
+    await audit.append(entry('2026-01-01T10:00:00Z', { key: 'kitchen-tablet' }));
+    await audit.append(entry('2026-01-02T10:00:00Z', { devices: ['lamp-bedroom'] }));
+    await audit.append(entry('2026-01-03T10:00:00Z', { key: 'kitchen-tablet' }));
+    await audit.append(entry('2026-01-04T10:00:00Z', { user: 'someone-else' }));
+
+    const times = (entries: AuditEntry[]) => entries.map(({ timestamp }) => timestamp.slice(0, 10));
+    assert.deepEqual(times(await auditLog()), ['2026-01-03', '2026-01-02', '2026-01-01']);
+    assert.deepEqual(times(await auditLog({ device: 'lamp-bedroom' })), ['2026-01-02']);
+    assert.deepEqual(times(await auditLog({ caller: 'kitchen-tablet' })), ['2026-01-03', '2026-01-01']);
+    assert.deepEqual(times(await auditLog({ since: '2026-01-02', until: '2026-01-02T23:59:59Z' })), ['2026-01-02']);
+    assert.deepEqual(times(await auditLog({ limit: 1 })), ['2026-01-03']);
+  });
+
+  it('appends one JSON line per entry to the log file', async () => {
+    const filePath = path.join(home.dir, 'logs', 'audit.jsonl');
+    const sink = new JsonlAuditSink(filePath);
+    assert.deepEqual(await sink.query({}), []);
+
+    await Promise.all(
+      Array.from({ length: 20 }, (_value, index) => sink.append(entry(`2026-01-01T10:00:${10 + index}Z`)))
+    );
+    const lines = (await readFile(filePath, 'utf-8')).trim().split('\n');
+    assert.equal(lines.length, 20);
+    assert.deepEqual(JSON.parse(lines[0]), entry('2026-01-01T10:00:10Z'));
+
+    const newest = await sink.query({ limit: 2 });
+    assert.deepEqual(newest.map(({ timestamp }) => timestamp), ['2026-01-01T10:00:29Z', '2026-01-01T10:00:28Z']);
+  });
+});
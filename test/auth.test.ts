@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import { GoogleAuth } from '../src/auth.js';
+import { writeFileAtomic } from '../src/files.js';
+import { FileTokenStore, MemoryTokenStore, StoredTokens } from '../src/tokens.js';
+
+const CREDENTIALS = JSON.stringify({
+  installed: { client_id: 'client', client_secret: 'secret', redirect_uris: ['http://localhost'] },
+});
+
+class CountingTokenStore extends MemoryTokenStore {
+  saved: StoredTokens[] = [];
+
+  async save(tokens: StoredTokens): Promise<void> {
+    this.saved.push(tokens);
+    await super.save(tokens);
+  }
+}
+
+// An initialized GoogleAuth whose token endpoint answers with `tokens`
+async function createAuth(store: MemoryTokenStore | FileTokenStore, tokens: StoredTokens): Promise<GoogleAuth> {
+  const auth = new GoogleAuth(store, { GOOGLE_CREDENTIALS: CREDENTIALS });
+  await auth.initialize();
+  const client = auth.getClient();
+  const request = async () => ({ data: tokens, status: 200 });
+  client.transporter.request = request as unknown as typeof client.transporter.request;
+  return auth;
+}
+
+describe('token storage', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'google-home-mcp-'));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('saves the tokens from a code exchange exactly once', async () => {
+    const store = new CountingTokenStore();
+    const auth = await createAuth(store, { access_token: 'access', refresh_token: 'refresh' });
+
+    await auth.getTokenFromCode('code');
+    assert.equal(store.saved.length, 1);
+    assert.equal(store.saved[0].refresh_token, 'refresh');
+    assert.equal(auth.isAuthenticated(), true);
+  });
+
+  it('still saves refreshed tokens, keeping the refresh token', async () => {
+    const store = new CountingTokenStore();
+    const auth = await createAuth(store, { access_token: 'access', refresh_token: 'refresh' });
+    await auth.getTokenFromCode('code');
+
+    auth.getClient().emit('tokens', { access_token: 'refreshed' });
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(store.saved.length, 2);
+    assert.deepEqual(store.saved[1], { access_token: 'refreshed', refresh_token: 'refresh' });
+  });
+
+  it('writes the token file without leaving temp files behind', async () => {
+    const tokenPath = path.join(dir, 'token.json');
+    const auth = await createAuth(new FileTokenStore(tokenPath), { access_token: 'access', refresh_token: 'refresh' });
+
+    await auth.getTokenFromCode('code');
+    const saved = JSON.parse(await readFile(tokenPath, 'utf-8'));
+    assert.deepEqual(saved, { access_token: 'access', refresh_token: 'refresh' });
+    assert.deepEqual(await readdir(dir), ['token.json']);
+  });
+
+  it('lets concurrent atomic writes of one file all succeed', async () => {
+    const filePath = path.join(dir, 'concurrent.json');
+    const writes = Array.from({ length: 20 }, (_value, index) => writeFileAtomic(filePath, JSON.stringify({ index })));
+    await Promise.all(writes);
+    assert.equal(typeof JSON.parse(await readFile(filePath, 'utf-8')).index, 'number');
+    assert.ok((await readdir(dir)).every((name) => !name.endsWith('.tmp')));
+  });
+});
@@ -0,0 +1,88 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { FakeBackend, StateCache, StateChange } from '../src/devices/index.js';
+
+// Counts what reaches the backend behind the cache
+class CountingBackend extends FakeBackend {
+  lists = 0;
+  queries: string[][] = [];
+
+  async listDevices() {
+    this.lists++;
+    return super.listDevices();
+  }
+
+  async queryStates(deviceIds: string[]) {
+    this.queries.push(deviceIds);
+    return super.queryStates(deviceIds);
+  }
+}
+
+describe('StateCache', () => {
+  let inner: CountingBackend;
+  let cache: StateCache;
+
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: Date.parse('2026-03-10T12:00:00Z') });
+    inner = new CountingBackend();
+    cache = new StateCache(inner, 30_000);
+  });
+  afterEach(() => mock.timers.reset());
+
+  it('reuses reads within the TTL and goes upstream once they expire', async () => {
+    await cache.listDevices();
+    await cache.queryStates(['light-kitchen']);
+    mock.timers.tick(29_000);
+    await cache.listDevices();
+    await cache.queryStates(['light-kitchen']);
+    assert.equal(inner.lists, 1);
+    assert.deepEqual(inner.queries, [['light-kitchen']]);
+
+    mock.timers.tick(1_000);
+    await cache.listDevices();
+    await cache.queryStates(['light-kitchen', 'light-porch']);
+    assert.equal(inner.lists, 2);
+    assert.deepEqual(inner.queries[1], ['light-kitchen', 'light-porch']);
+  });
+
+  it('only fetches the devices that are stale', async () => {
+    await cache.queryStates(['light-kitchen']);
+    await cache.queryStates(['light-kitchen', 'light-porch']);
+    assert.deepEqual(inner.queries, [['light-kitchen'], ['light-porch']]);
+  });
+
+  it('invalidates the devices a command touched', async () => {
+    await cache.queryStates(['light-kitchen', 'light-porch']);
+    await cache.execute(['light-porch'], { command: 'action.devices.commands.OnOff', params: { on: true } });
+
+    const states = await cache.queryStates(['light-kitchen', 'light-porch']);
+    assert.equal(states['light-porch'].on, true);
+    assert.deepEqual(inner.queries.at(-1), ['light-porch']);
+  });
+
+  it('records changes between reads and tells listeners', async () => {
+    const seen: StateChange[] = [];
+    cache.onChange((change) => seen.push(change));
+    await cache.queryStates(['lamp-bedroom']);
+    await inner.execute(['lamp-bedroom'], {
+      command: 'action.devices.commands.BrightnessAbsolute',
+      params: { brightness: 70 },
+    });
+
+    cache.invalidate();
+    await cache.queryStates(['lamp-bedroom']);
+    const changes = cache.changesSince(0);
+    assert.deepEqual(changes, [
+      { device: 'lamp-bedroom', at: '2026-03-10T12:00:00.000Z', changes: { brightness: { from: 30, to: 70 } } },
+    ]);
+    assert.deepEqual(seen, changes);
+    assert.deepEqual(cache.changesSince(Date.parse('2026-03-10T12:00:00Z')), []);
+  });
+
+  it('hands out copies of cached state', async () => {
+    const first = await cache.queryStates(['light-kitchen']);
+    first['light-kitchen'].on = false;
+    const second = await cache.queryStates(['light-kitchen']);
+    assert.equal(second['light-kitchen'].on, true);
+  });
+});
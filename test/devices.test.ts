@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { DeviceState, FakeBackend, queryDevices } from '../src/devices/index.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { createTestHome, DeviceStates, resultJson, TestHome } from './helpers.js';
+
+interface QueriedDevices {
+  devices: Array<{ id: string; name: string; room?: string; type: string; online: boolean; state: DeviceState }>;
+}
+
+const registry = createToolRegistry();
+
+describe('device tools', () => {
+  let home: TestHome;
+
+  before(async () => {
+    home = await createTestHome();
+  });
+  after(() => home.cleanup());
+
+  const query = async (args: object) =>
+    resultJson<QueriedDevices>(await registry.callTool('query_devices', args, home.context())).devices;
+
+  it('query_devices returns states filtered by room, type, trait and online status', async () => {
+    const bedroom = await query({ room: 'bedroom' });
+    assert.deepEqual(
+      bedroom.map(({ id, state }) => [id, state]),
+      [
+        ['lamp-bedroom', { on: false, brightness: 30, online: true }],
+        [
+          'thermostat-bedroom',
+          {
+            thermostatMode: 'heat',
+            thermostatTemperatureSetpoint: 20,
+            thermostatTemperatureAmbient: 19.5,
+            thermostatHumidityAmbient: 45,
+            online: true,
+          },
+        ],
+      ]
+    );
+
+    const ids = async (args: object) => (await query(args)).map((device) => device.id);
+    assert.deepEqual(await ids({ type: 'light', room: 'Bedroom' }), ['lamp-bedroom']);
+    assert.deepEqual(await ids({ trait: 'action.devices.traits.ColorSetting' }), ['light-kitchen']);
+    assert.deepEqual(await ids({ online: false }), ['plug-guest-room']);
+    assert.deepEqual(await ids({ devices: ['Porch Light', 'Front Door'], trait: 'OnOff' }), ['light-porch']);
+  });
+
+  it('get_device_states answers in the QUERY format', async () => {
+    const result = await registry.callTool(
+      'get_device_states',
+      { deviceIds: ['garage-door', 'plug-guest-room'] },
+      home.context()
+    );
+    assert.deepEqual(resultJson<DeviceStates>(result).devices, {
+      'garage-door': { status: 'SUCCESS', openPercent: 0, online: true },
+      'plug-guest-room': { status: 'SUCCESS', on: false, online: false },
+    });
+  });
+
+  it('queryDevices reports devices the backend does not know', async () => {
+    assert.deepEqual(await queryDevices(new FakeBackend(), ['light-porch', 'nope']), {
+      'light-porch': { status: 'SUCCESS', on: false, online: true },
+      nope: { status: 'ERROR', errorCode: 'deviceNotFound' },
+    });
+  });
+
+  it('get_device_states reports unknown entries without failing the rest', async () => {
+    const result = await registry.callTool(
+      'get_device_states',
+      { deviceIds: ['light-kitchen', 'nope-device', 'kitchen lite'] },
+      home.context()
+    );
+    const { devices, resolved } = resultJson<DeviceStates>(result);
+
+    assert.equal(devices['light-kitchen'].status, 'SUCCESS');
+    assert.equal(devices['light-kitchen'].on, true);
+    assert.equal(devices['nope-device'].status, 'ERROR');
+    assert.equal(devices['nope-device'].errorCode, 'deviceNotFound');
+    assert.deepEqual(resolved, [{ name: 'kitchen lite', match: 'fuzzy', devices: ['light-kitchen'] }]);
+  });
+
+  it('get_device_states suggests near matches for unknown names', async () => {
+    const result = await registry.callTool('get_device_states', { deviceIds: ['Bedside Clock'] }, home.context());
+    const { devices } = resultJson<DeviceStates>(result);
+    assert.equal(devices['Bedside Clock'].errorCode, 'deviceNotFound');
+    assert.match(devices['Bedside Clock'].debugString ?? '', /Bedside Lamp \(lamp-bedroom/);
+  });
+
+  it('resolves groups, rooms and aliases in devices arguments', async () => {
+    const context = home.context();
+    resultJson(await registry.callTool('set_alias', { alias: 'Emma light', device: 'Bedside Lamp' }, context));
+    resultJson(
+      await registry.callTool('create_group', { name: 'downstairs', devices: ['Kitchen', 'reading lamp'] }, context)
+    );
+
+    const { devices } = resultJson<DeviceStates>(
+      await registry.callTool('get_device_states', { deviceIds: ['downstairs', 'Emma light'] }, context)
+    );
+    assert.deepEqual(Object.keys(devices).sort(), ['lamp-bedroom', 'lamp-living-room', 'light-kitchen']);
+  });
+});
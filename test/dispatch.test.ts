@@ -0,0 +1,76 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { createMcpServer } from '../src/core.js';
+import { dispatchJsonRpc } from '../src/transports/dispatch.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { CommandResponse, createTestHome, DeviceStates, RpcReply, TestHome } from './helpers.js';
+
+const registry = createToolRegistry();
+
+describe('JSON-RPC dispatch', () => {
+  let home: TestHome;
+  const dispatch = async (payload: unknown) =>
+    (await dispatchJsonRpc(createMcpServer(registry, home.context()), payload)) as RpcReply | RpcReply[] | undefined;
+  const reply = async (payload: unknown) => (await dispatch(payload)) as RpcReply;
+  const call = (id: number, name: string, args: object) => ({
+    jsonrpc: '2.0',
+    id,
+    method: 'tools/call',
+    params: { name, arguments: args },
+  });
+  const text = (message: RpcReply) => message.result?.content?.[0].text ?? '';
+
+  before(async () => {
+    home = await createTestHome();
+  });
+  after(() => home.cleanup());
+
+  it('lists the registered tools', async () => {
+    const listed = await reply({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const names = listed.result?.tools?.map((tool) => tool.name) ?? [];
+    assert.ok(names.includes('execute_command'));
+    assert.ok(names.includes('get_device_states'));
+  });
+
+  it('runs tools against the fake backend and audits commands', async () => {
+    const executed = await reply(call(2, 'execute_command', { command: 'turn on the porch light' }));
+    const response: CommandResponse = JSON.parse(text(executed));
+    assert.equal(response.payload.commands[0].status, 'SUCCESS');
+
+    const states = await reply(call(3, 'get_device_states', { deviceIds: ['Porch Light'] }));
+    assert.equal((JSON.parse(text(states)) as DeviceStates).devices['light-porch'].on, true);
+
+    const [entry] = await home.accounts.audit.query({ device: 'light-porch' });
+    assert.equal(entry.tool, 'execute_command');
+    assert.equal(entry.command, 'action.devices.commands.OnOff');
+  });
+
+  it('answers batches in order and skips notifications', async () => {
+    const replies = (await dispatch([
+      { jsonrpc: '2.0', method: 'notifications/initialized' },
+      { jsonrpc: '2.0', id: 'a', method: 'ping' },
+      call(4, 'list_devices', {}),
+    ])) as RpcReply[];
+    assert.deepEqual(replies.map(({ id }) => id), ['a', 4]);
+    assert.equal(await dispatch({ jsonrpc: '2.0', method: 'notifications/initialized' }), undefined);
+  });
+
+  it('maps malformed messages to JSON-RPC errors', async () => {
+    const invalid = await reply({ jsonrpc: '2.0', id: 5, method: 'tools/call', params: { name: 42 } });
+    assert.equal(invalid.error?.code, -32602);
+
+    const unknown = await reply({ jsonrpc: '2.0', id: 6, method: 'no/such/method' });
+    assert.equal(unknown.error?.code, -32601);
+
+    const garbage = await reply({ hello: 'world' });
+    assert.deepEqual(garbage.error, { code: -32600, message: 'Invalid Request' });
+    const empty = await dispatch([]);
+    assert.deepEqual(empty, { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } });
+  });
+
+  it('reports tool failures as error results', async () => {
+    const failed = await reply(call(7, 'execute_command', { command: 'action.devices.commands.OnOff' }));
+    assert.equal(failed.result?.isError, true);
+    assert.match(text(failed), /devices is required/);
+  });
+});
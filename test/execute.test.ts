@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { applyCommand, executeCommand, FakeBackend, parseExecution } from '../src/devices/index.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { CommandResponse, createTestHome, resultJson, resultText } from './helpers.js';
+
+const ON = { command: 'action.devices.commands.OnOff', params: { on: true } };
+
+describe('parseExecution', () => {
+  it('validates params against the command', () => {
+    assert.deepEqual(parseExecution('action.devices.commands.BrightnessAbsolute', { brightness: 40 }), {
+      command: 'action.devices.commands.BrightnessAbsolute',
+      params: { brightness: 40 },
+    });
+    assert.throws(
+      () => parseExecution('action.devices.commands.BrightnessAbsolute', { brightness: 140 }),
+      /Invalid params for action.devices.commands.BrightnessAbsolute: brightness:/
+    );
+    assert.throws(() => parseExecution('action.devices.commands.OnOff', {}), /on: Required/);
+    assert.throws(() => parseExecution('action.devices.commands.Dance', {}), /Unsupported command/);
+  });
+
+  it('needs a spectrum or temperature for colors', () => {
+    assert.throws(
+      () => parseExecution('action.devices.commands.ColorAbsolute', { color: { name: 'red' } }),
+      /color needs spectrumRGB or temperature/
+    );
+    const execution = parseExecution('action.devices.commands.ColorAbsolute', { color: { spectrumRGB: 0xff0000 } });
+    assert.deepEqual(applyCommand({ on: true }, execution), {
+      on: true,
+      color: { name: undefined, spectrumRgb: 0xff0000 },
+    });
+  });
+});
+
+describe('executeCommand', () => {
+  it('reports one result per device', async () => {
+    const backend = new FakeBackend();
+    const response = await executeCommand(
+      backend,
+      ['light-porch', 'plug-guest-room', 'thermostat-bedroom', 'nope', 'light-porch'],
+      ON
+    );
+
+    assert.deepEqual(response.payload.commands, [
+      { ids: ['light-porch'], status: 'SUCCESS', states: { online: true, on: true } },
+      { ids: ['plug-guest-room'], status: 'OFFLINE', errorCode: 'deviceOffline' },
+      {
+        ids: ['thermostat-bedroom'],
+        status: 'ERROR',
+        errorCode: 'functionNotSupported',
+        debugString: 'Bedroom Thermostat does not support action.devices.traits.OnOff',
+      },
+      { ids: ['nope'], status: 'ERROR', errorCode: 'deviceNotFound' },
+    ]);
+    assert.deepEqual(await backend.queryStates(['light-porch', 'plug-guest-room']), {
+      'light-porch': { on: true },
+      'plug-guest-room': { on: false },
+    });
+  });
+});
+
+describe('execute_command', () => {
+  const registry = createToolRegistry();
+
+  it('runs structured commands on the named devices', async () => {
+    const home = await createTestHome();
+    try {
+      const args = {
+        command: 'action.devices.commands.BrightnessAbsolute',
+        params: { brightness: 25 },
+        devices: ['lamp-bedroom', 'light-porch'],
+      };
+      const { payload } = resultJson<CommandResponse>(await registry.callTool('execute_command', args, home.context()));
+      assert.deepEqual(
+        payload.commands.map(({ ids, status, states }) => [ids[0], status, states?.brightness]),
+        [
+          ['lamp-bedroom', 'SUCCESS', 25],
+          ['light-porch', 'ERROR', undefined],
+        ]
+      );
+
+      const missing = await registry.callTool('execute_command', ON, home.context());
+      assert.equal(missing.isError, true);
+      assert.match(resultText(missing), /devices is required for action.devices.commands.OnOff/);
+
+      const invalid = await registry.callTool(
+        'execute_command',
+        { ...args, params: { brightness: 'dim' } },
+        home.context()
+      );
+      assert.equal(invalid.isError, true);
+      assert.match(resultText(invalid), /Invalid params/);
+    } finally {
+      await home.cleanup();
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { mkdtemp, rm } from 'fs/promises';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it, mock } from 'node:test';
+import { getTestServer } from '@google-cloud/functions-framework/testing';
+
+describe('Cloud Function', () => {
+  let dir: string;
+  let server: Server;
+  let url: string;
+  const errors = mock.method(console, 'error', () => {});
+
+  before(async () => {
+    // No API keys, so the function fails to initialize
+    dir = await mkdtemp(path.join(os.tmpdir(), 'google-home-mcp-'));
+    Object.assign(process.env, {
+      API_KEYS_FILE: path.join(dir, 'api-keys.json'),
+      DEVICE_BACKEND: 'fake',
+      TOKEN_STORE: 'memory',
+      AUDIT_LOG: 'memory',
+    });
+    await import('../src/function.js');
+    server = getTestServer('googleHomeMCP').listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+  after(async () => {
+    server.close();
+    errors.mock.restore();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('answers 503 when it failed to initialize', async () => {
+    const response = await fetch(`${url}/mcp`, {
+      method: 'POST',
+      headers: { authorization: 'Bearer any', 'content-type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+    });
+    assert.equal(response.status, 503);
+    assert.match((await response.json()).error, /could not load accounts or API keys/);
+    assert.equal((await fetch(`${url}/health`)).status, 503);
+
+    const [initialization] = errors.mock.calls;
+    assert.equal(initialization.arguments[0], 'Failed to initialize:');
+    assert.match(String(initialization.arguments[1]), /No active API keys/);
+  });
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ToolContext } from '../src/registry.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { CommandResponse, createTestHome, resultJson, resultText, TestHome } from './helpers.js';
+
+const registry = createToolRegistry();
+
+interface Member {
+  id: string;
+  name: string;
+  room?: string;
+}
+
+interface GroupList {
+  groups: Array<{ name: string; description?: string; devices: Member[] }>;
+  rooms: Array<{ room: string; devices: string[] }>;
+}
+
+describe('device groups', () => {
+  let home: TestHome;
+  let context: ToolContext;
+  const call = (name: string, args: object) => registry.callTool(name, args, context);
+
+  beforeEach(async () => {
+    home = await createTestHome();
+    context = home.context();
+  });
+  afterEach(() => home.cleanup());
+
+  it('store members as device IDs resolved when the group is saved', async () => {
+    const { saved } = resultJson<{ saved: { name: string; devices: Member[] } }>(
+      await call('create_group', {
+        name: 'Outdoor lights',
+        description: 'Outside',
+        devices: ['Outdoor', 'light-porch'],
+      })
+    );
+    assert.deepEqual(saved.devices, [{ id: 'light-porch', name: 'Porch Light', room: 'Outdoor' }]);
+
+    const file = JSON.parse(await readFile(path.join(home.dir, 'groups.json'), 'utf-8'));
+    assert.deepEqual(file, { groups: [{ name: 'Outdoor lights', description: 'Outside', devices: ['light-porch'] }] });
+
+    const { groups, rooms } = resultJson<GroupList>(await call('list_groups', {}));
+    assert.equal(groups[0].name, 'Outdoor lights');
+    assert.deepEqual(rooms.find(({ room }) => room === 'Bedroom')?.devices, ['lamp-bedroom', 'thermostat-bedroom']);
+  });
+
+  it('add devices, refuse duplicates unless replaced, and delete by any casing', async () => {
+    resultJson(await call('create_group', { name: 'downstairs', devices: ['Kitchen Lights'] }));
+    const added = resultJson<{ saved: { devices: Member[] } }>(
+      await call('add_to_group', { name: 'Downstairs', devices: ['reading lamp', 'light-kitchen'] })
+    );
+    assert.deepEqual(added.saved.devices.map(({ id }) => id), ['light-kitchen', 'lamp-living-room']);
+
+    const duplicate = await call('create_group', { name: 'DOWNSTAIRS', devices: ['Porch Light'] });
+    assert.equal(duplicate.isError, true);
+    assert.match(resultText(duplicate), /Group already exists: downstairs\. Pass replace to overwrite it\./);
+    resultJson(await call('create_group', { name: 'downstairs', devices: ['Porch Light'], replace: true }));
+    const { groups } = resultJson<GroupList>(await call('list_groups', {}));
+    assert.deepEqual(groups[0].devices.map(({ id }) => id), ['light-porch']);
+
+    assert.deepEqual(resultJson(await call('delete_group', { name: 'Downstairs' })), { deleted: 'Downstairs' });
+    assert.deepEqual(resultJson<GroupList>(await call('list_groups', {})).groups, []);
+    assert.match(resultText(await call('delete_group', { name: 'downstairs' })), /Unknown group: downstairs/);
+    assert.match(resultText(await call('add_to_group', { name: 'attic', devices: ['Porch Light'] })), /Unknown group/);
+  });
+
+  it('keep every change made at the same time', async () => {
+    const { groups } = home.accounts.primary();
+    const names = Array.from({ length: 10 }, (_value, index) => `group ${index}`);
+    await Promise.all(names.map((name) => groups.create({ name, devices: ['light-porch'] })));
+    await Promise.all([groups.add('group 0', ['lamp-bedroom']), groups.add('group 0', ['light-kitchen'])]);
+
+    const saved = await groups.list();
+    assert.deepEqual(saved.map(({ name }) => name).sort(), names);
+    assert.deepEqual(saved[0].devices, ['light-porch', 'lamp-bedroom', 'light-kitchen']);
+  });
+
+  it('can be targeted by commands and reject invalid names', async () => {
+    resultJson(await call('create_group', { name: 'lamps', devices: ['Bedside Lamp', 'reading lamp'] }));
+    const response = resultJson<CommandResponse>(
+      await call('execute_command', {
+        command: 'action.devices.commands.OnOff',
+        params: { on: true },
+        devices: ['lamps'],
+      })
+    );
+    const ids = response.payload.commands.flatMap((result) => result.ids);
+    assert.deepEqual(ids.sort(), ['lamp-bedroom', 'lamp-living-room']);
+
+    const invalid = await call('create_group', { name: 'lamps/*', devices: ['Porch Light'] });
+    assert.equal(invalid.isError, true);
+  });
+});
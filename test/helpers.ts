@@ -0,0 +1,168 @@
+import { mkdtemp, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { AccountDirectory, Caller } from '../src/accounts.js';
+import { AuditTransport } from '../src/audit.js';
+import {
+  CommandExecution,
+  Device,
+  DeviceState,
+  ExecuteCommandResult,
+  ExecuteResponse,
+  PlannedChange,
+} from '../src/devices/index.js';
+import { ApiKeyStore, KeyScope } from '../src/keys.js';
+import { ToolContext } from '../src/registry.js';
+import { SceneCondition } from '../src/scenes.js';
+import { Schedule } from '../src/scheduler/index.js';
+import { TargetMatch } from '../src/targets.js';
+
+// One account on the fake backend, with every file it writes in a temp dir
+export interface TestHome {
+  dir: string;
+  accounts: AccountDirectory;
+  caller(scopes?: KeyScope[], transport?: AuditTransport): Caller;
+  context(scopes?: KeyScope[]): ToolContext;
+  // A stored API key for the account, its bearer token and the caller it resolves to
+  createKey(scopes?: KeyScope[], transport?: AuditTransport): Promise<{ id: string; token: string; caller: Caller }>;
+  cleanup(): Promise<void>;
+}
+
+export async function createTestHome(env: NodeJS.ProcessEnv = {}): Promise<TestHome> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'google-home-mcp-'));
+  const accounts = new AccountDirectory(
+    [{ id: 'default' }],
+    new ApiKeyStore(path.join(dir, 'api-keys.json')),
+    {
+      DEVICE_BACKEND: 'fake',
+      TOKEN_STORE: 'memory',
+      AUDIT_LOG: 'memory',
+      SCENES_FILE: path.join(dir, 'scenes.yaml'),
+      GROUPS_FILE: path.join(dir, 'groups.json'),
+      ALIASES_FILE: path.join(dir, 'aliases.json'),
+      ...env,
+    },
+    true
+  );
+
+  const caller = (scopes: KeyScope[] = ['read', 'control'], transport: AuditTransport = 'stdio'): Caller => ({
+    account: accounts.primary(),
+    transport,
+    scopes,
+  });
+  return {
+    dir,
+    accounts,
+    caller,
+    context: (scopes) => accounts.primary().createContext(caller(scopes)),
+    async createKey(scopes = ['read', 'control'], transport = 'ws') {
+      const name = `test-${(await accounts.keys.list()).length + 1}`;
+      const { key, record } = await accounts.keys.create({ name, user: 'default', scopes });
+      const keyCaller = await accounts.callerForKey(record.id, transport);
+      return { id: record.id, token: key, caller: keyCaller! };
+    },
+    cleanup: () => rm(dir, { recursive: true, force: true }),
+  };
+}
+
+export function resultText(result: CallToolResult): string {
+  const [content] = result.content;
+  return content.type === 'text' ? content.text : '';
+}
+
+// Parses a jsonResult as the shape the test expects, failing on error results
+// so assertions see the message
+export function resultJson<T>(result: CallToolResult): T {
+  if (result.isError) {
+    throw new Error(resultText(result));
+  }
+  return JSON.parse(resultText(result));
+}
+
+// A JSON-RPC reply as the transports send it
+export interface RpcReply {
+  jsonrpc: '2.0';
+  id: string | number | null;
+  result?: { tools?: Array<{ name: string }>; content?: Array<{ type: string; text: string }>; isError?: boolean };
+  error?: { code: number; message: string };
+}
+
+// The tool results tests read, one type per kind of answer
+
+export type Plan = Array<PlannedChange & { name?: string }>;
+
+export type CommandResponse = ExecuteResponse & {
+  resolved?: TargetMatch[];
+  interpretation?: CommandExecution & { devices: string[] };
+};
+
+export interface Clarification {
+  resolved?: TargetMatch[];
+  clarification: string;
+  candidates: Array<Pick<Device, 'id' | 'name' | 'room'>>;
+}
+
+export interface DryRun {
+  dryRun: true;
+  resolved?: TargetMatch[];
+  interpretation?: CommandExecution & { devices: string[] };
+  confirmationRequired: boolean;
+  plan: Plan;
+}
+
+// COMMAND_POLICY=confirm previews
+export interface CommandPreview {
+  confirmationRequired: true;
+  message: string;
+  confirmationToken: string;
+  expiresInSeconds: number;
+  plan: Plan;
+}
+
+export interface ScenePreview extends Omit<CommandPreview, 'plan'> {
+  scene: string;
+  steps: Array<{ step: number; command: string; delaySeconds?: number; when?: SceneCondition[]; plan: Plan }>;
+}
+
+export interface SchedulePreview extends CommandPreview {
+  when: string;
+}
+
+// Security device confirmation (challenge or PIN)
+export interface ConfirmationRequest {
+  confirmationRequired: true;
+  message: string;
+  challenge?: string;
+  expiresInSeconds?: number;
+  retryAfterSeconds?: number;
+  devices: Array<Pick<Device, 'id' | 'name' | 'type'>>;
+}
+
+// One entry of get_device_states, either variant of QueryDeviceResult
+export type DeviceStateEntry = DeviceState & {
+  status: 'SUCCESS' | 'ERROR';
+  online?: boolean;
+  errorCode?: string;
+  debugString?: string;
+};
+
+export interface DeviceStates {
+  resolved?: TargetMatch[];
+  devices: Record<string, DeviceStateEntry>;
+}
+
+export type ScheduleSummary = Omit<Schedule, 'keyId' | 'user'> & { when: string };
+
+export interface SceneRun {
+  scene: string;
+  status: 'SUCCESS' | 'PARTIAL' | 'ERROR';
+  steps: Array<{
+    step: number;
+    command: string;
+    devices: string[];
+    status: 'SUCCESS' | 'PARTIAL' | 'SKIPPED' | 'ERROR';
+    reason?: string;
+    results?: ExecuteCommandResult[];
+  }>;
+}
@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { JWT } from 'google-auth-library';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { ExecuteCommandResult, HomeGraphBackend } from '../src/devices/index.js';
+
+const ON = { command: 'action.devices.commands.OnOff', params: { on: true } };
+
+interface FulfillmentRequest {
+  authorization?: string;
+  body: { inputs: unknown[] };
+}
+
+interface ReportStateRequest {
+  url: string;
+  data: { agentUserId: string; payload: { devices: { states: Record<string, unknown> } } };
+}
+
+describe('HomeGraphBackend.execute', () => {
+  let server: http.Server;
+  let requests: FulfillmentRequest[];
+  let commands: ExecuteCommandResult[];
+  let reports: ReportStateRequest[];
+  let reportError: Error | null;
+
+  const backend = () =>
+    new HomeGraphBackend({
+      agentUserId: 'user',
+      fulfillmentUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/fulfillment`,
+      fulfillmentToken: 'secret',
+      env: { GOOGLE_SERVICE_ACCOUNT_KEY: JSON.stringify({ client_email: 'action@test', private_key: 'unused' }) },
+    });
+
+  beforeEach(async () => {
+    requests = [];
+    reports = [];
+    reportError = null;
+    commands = [{ ids: ['light-1'], status: 'SUCCESS', states: { on: true } }];
+    server = http.createServer(async (req, res) => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      requests.push({ authorization: req.headers.authorization, body: JSON.parse(Buffer.concat(chunks).toString()) });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ payload: { commands } }));
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+
+    // HomeGraph API calls go through the service account client
+    mock.method(JWT.prototype, 'request', async (options: ReportStateRequest) => {
+      if (reportError) {
+        throw reportError;
+      }
+      reports.push(options);
+      return { data: {} };
+    });
+  });
+  afterEach(() => {
+    mock.restoreAll();
+    server.close();
+  });
+
+  it('fails commands when no fulfillment URL is configured', async () => {
+    const backend = new HomeGraphBackend({ agentUserId: 'user' });
+    const results = await backend.execute(['light-1', 'light-2'], ON);
+    assert.deepEqual(
+      results.map(({ ids, status, errorCode }) => [ids[0], status, errorCode]),
+      [
+        ['light-1', 'ERROR', 'actionNotAvailable'],
+        ['light-2', 'ERROR', 'actionNotAvailable'],
+      ]
+    );
+    assert.match(results[0].debugString ?? '', /SMART_HOME_FULFILLMENT_URL/);
+    assert.equal(reports.length, 0);
+  });
+
+  it('sends an EXECUTE intent to the fulfillment URL', async () => {
+    const results = await backend().execute(['light-1'], ON);
+
+    assert.deepEqual(results, [{ ids: ['light-1'], status: 'SUCCESS', states: { on: true } }]);
+    assert.equal(requests[0].authorization, 'Bearer secret');
+    assert.deepEqual(requests[0].body.inputs, [
+      {
+        intent: 'action.devices.EXECUTE',
+        payload: { commands: [{ devices: [{ id: 'light-1' }], execution: [ON] }] },
+      },
+    ]);
+  });
+
+  it('reports the states the fulfillment returned to HomeGraph', async () => {
+    commands = [
+      { ids: ['light-1', 'light-2'], status: 'SUCCESS', states: { on: true, online: true } },
+      { ids: ['light-3'], status: 'OFFLINE', errorCode: 'deviceOffline' },
+    ];
+    await backend().execute(['light-1', 'light-2', 'light-3'], ON);
+
+    assert.equal(reports.length, 1);
+    assert.match(reports[0].url, /devices:reportStateAndNotification$/);
+    assert.equal(reports[0].data.agentUserId, 'user');
+    assert.deepEqual(reports[0].data.payload.devices.states, {
+      'light-1': { on: true, online: true },
+      'light-2': { on: true, online: true },
+    });
+  });
+
+  it('notes a failed report on each device instead of failing the command', async () => {
+    commands = [
+      { ids: ['light-1', 'light-2'], status: 'SUCCESS', states: { on: true } },
+      { ids: ['light-3'], status: 'OFFLINE', errorCode: 'deviceOffline' },
+    ];
+    reportError = new Error('quota exceeded');
+    const results = await backend().execute(['light-1', 'light-2', 'light-3'], ON);
+
+    assert.deepEqual(
+      results.map(({ ids, status, debugString }) => [ids, status, debugString]),
+      [
+        [['light-1'], 'SUCCESS', 'New state not reported to HomeGraph: quota exceeded'],
+        [['light-2'], 'SUCCESS', 'New state not reported to HomeGraph: quota exceeded'],
+        [['light-3'], 'OFFLINE', undefined],
+      ]
+    );
+  });
+});
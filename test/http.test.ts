@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'timers/promises';
+import { Caller } from '../src/accounts.js';
+import { createMcpServer } from '../src/core.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { StreamableHttpEndpoint, StreamableHttpOptions } from '../src/transports/http.js';
+import { createTestHome, TestHome } from './helpers.js';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 0,
+  method: 'initialize',
+  params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '1.0.0' } },
+};
+
+// Serves an endpoint the way server.ts does, with the caller picked by the test
+async function serve(home: TestHome, options: StreamableHttpOptions<Caller>) {
+  const registry = createToolRegistry();
+  const closed: Caller[] = [];
+  const endpoint = new StreamableHttpEndpoint<Caller>((caller) => {
+    const server = createMcpServer(registry, caller.account.createContext(caller));
+    server.onclose = () => closed.push(caller);
+    return server;
+  }, options);
+  const callers = new Map<string, Caller>();
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+    const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString()) : undefined;
+    await endpoint.handle(Object.assign(req, { body }), res, callers.get(req.headers.authorization ?? '')!);
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/mcp`;
+
+  for (const name of ['alice', 'bob']) {
+    callers.set(name, (await home.createKey(['read', 'control'], 'http')).caller);
+  }
+  return {
+    endpoint,
+    url,
+    closed,
+    close: async () => {
+      await endpoint.closeAll();
+      await new Promise((resolve) => server.close(resolve));
+    },
+  };
+}
+
+async function post(url: string, caller: string, message: object, sessionId?: string) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      authorization: caller,
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      ...(sessionId ? { 'mcp-session-id': sessionId } : {}),
+    },
+    body: JSON.stringify(message),
+  });
+  const text = await response.text();
+  // Replies arrive as JSON or as one SSE event
+  const data = text.startsWith('{') ? text : text.match(/^data: (.*)$/m)?.[1];
+  return { status: response.status, sessionId: response.headers.get('mcp-session-id'), body: data && JSON.parse(data) };
+}
+
+describe('Streamable HTTP endpoint', () => {
+  let home: TestHome;
+
+  before(async () => {
+    home = await createTestHome();
+  });
+  after(() => home.cleanup());
+
+  it('keeps sessions and binds them to their caller', async () => {
+    const { url, close } = await serve(home, { ownerOf: (caller) => caller.key?.id });
+    try {
+      const initialized = await post(url, 'alice', INITIALIZE);
+      assert.equal(initialized.status, 200);
+      assert.ok(initialized.sessionId);
+
+      const listed = await post(url, 'alice', { jsonrpc: '2.0', id: 1, method: 'tools/list' }, initialized.sessionId!);
+      assert.ok(listed.body.result.tools.length > 0);
+
+      const stolen = await post(url, 'bob', { jsonrpc: '2.0', id: 1, method: 'tools/list' }, initialized.sessionId!);
+      assert.equal(stolen.status, 404);
+
+      const missing = await post(url, 'alice', { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+      assert.equal(missing.status, 400);
+    } finally {
+      await close();
+    }
+  });
+
+  it('forgets sessions ended with DELETE', async () => {
+    const { endpoint, url, closed, close } = await serve(home, {});
+    try {
+      const { sessionId } = await post(url, 'alice', INITIALIZE);
+      assert.equal(endpoint.sessionCount, 1);
+
+      const headers = { authorization: 'alice', 'mcp-session-id': sessionId! };
+      assert.equal((await fetch(url, { method: 'DELETE', headers })).status, 200);
+      assert.equal(endpoint.sessionCount, 0);
+      assert.equal(closed.length, 1);
+      assert.equal((await post(url, 'alice', { jsonrpc: '2.0', id: 1, method: 'ping' }, sessionId!)).status, 404);
+    } finally {
+      await close();
+    }
+  });
+
+  it('closes the server of an initialize request it rejects', async () => {
+    const { endpoint, url, closed, close } = await serve(home, {});
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { authorization: 'alice', 'content-type': 'application/json', accept: 'application/json' },
+        body: JSON.stringify(INITIALIZE),
+      });
+      assert.equal(response.status, 406);
+      assert.equal(endpoint.sessionCount, 0);
+      assert.equal(closed.length, 1);
+    } finally {
+      await close();
+    }
+  });
+
+  it('closes sessions that sit idle', async () => {
+    const { endpoint, url, closed, close } = await serve(home, { idleTimeoutMs: 100 });
+    try {
+      const { sessionId } = await post(url, 'alice', INITIALIZE);
+      await sleep(50);
+      assert.equal((await post(url, 'alice', { jsonrpc: '2.0', id: 1, method: 'ping' }, sessionId!)).status, 200);
+      assert.equal(endpoint.sessionCount, 1);
+
+      await sleep(300);
+      assert.equal(endpoint.sessionCount, 0);
+      assert.equal(closed.length, 1);
+      assert.equal((await post(url, 'alice', { jsonrpc: '2.0', id: 2, method: 'ping' }, sessionId!)).status, 404);
+    } finally {
+      await close();
+    }
+  });
+
+  it('answers single requests without sessions in stateless mode', async () => {
+    const { url, close } = await serve(home, { stateless: true });
+    try {
+      const reply = await post(url, 'alice', {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'tools/call',
+        params: { name: 'get_device_states', arguments: { deviceIds: ['light-kitchen'] } },
+      });
+      assert.equal(reply.sessionId, null);
+      const { devices } = JSON.parse(reply.body.result.content[0].text);
+      assert.equal(devices['light-kitchen'].on, true);
+    } finally {
+      await close();
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { GoogleAuth } from '../src/auth.js';
+import { handleOAuthCallback, LoopbackCallbackServer, OAUTH_CALLBACK_PATH } from '../src/oauth.js';
+import { MemoryTokenStore } from '../src/tokens.js';
+
+const CREDENTIALS = JSON.stringify({
+  installed: { client_id: 'client', client_secret: 'secret', redirect_uris: ['http://localhost'] },
+});
+
+// An initialized GoogleAuth whose token endpoint records each code exchange
+async function createAuth(): Promise<{ auth: GoogleAuth; exchanges: URLSearchParams[] }> {
+  const auth = new GoogleAuth(new MemoryTokenStore(), { GOOGLE_CREDENTIALS: CREDENTIALS });
+  await auth.initialize();
+  const exchanges: URLSearchParams[] = [];
+  const client = auth.getClient();
+  const request = async (options: { data: string }) => {
+    exchanges.push(new URLSearchParams(options.data));
+    return { data: { access_token: 'access', refresh_token: 'refresh' }, status: 200 };
+  };
+  client.transporter.request = request as unknown as typeof client.transporter.request;
+  return { auth, exchanges };
+}
+
+describe('OAuth callback', () => {
+  it('issues auth URLs with a state and a PKCE challenge', async () => {
+    const { auth } = await createAuth();
+    auth.setRedirectUriProvider(() => 'https://home.example.com/oauth/callback');
+    const url = new URL(await auth.getAuthUrl());
+
+    assert.equal(url.searchParams.get('code_challenge_method'), 'S256');
+    assert.ok(url.searchParams.get('code_challenge'));
+    assert.equal(url.searchParams.get('redirect_uri'), 'https://home.example.com/oauth/callback');
+    assert.equal(url.searchParams.get('access_type'), 'offline');
+    assert.equal(auth.ownsAuthorization(url.searchParams.get('state')!), true);
+  });
+
+  it('exchanges the code with the verifier and redirect URI of its auth URL, once', async () => {
+    const { auth, exchanges } = await createAuth();
+    auth.setRedirectUriProvider(() => 'https://home.example.com/oauth/callback');
+    const state = new URL(await auth.getAuthUrl()).searchParams.get('state')!;
+
+    const done = await handleOAuthCallback(auth, new URLSearchParams({ code: 'the-code', state }));
+    assert.equal(done.status, 200);
+    assert.match(done.html, /Authorization complete/);
+    assert.equal(auth.isAuthenticated(), true);
+    assert.equal(exchanges[0].get('code'), 'the-code');
+    assert.ok(exchanges[0].get('code_verifier'));
+    assert.equal(exchanges[0].get('redirect_uri'), 'https://home.example.com/oauth/callback');
+
+    const replayed = await handleOAuthCallback(auth, new URLSearchParams({ code: 'the-code', state }));
+    assert.equal(replayed.status, 400);
+    assert.match(replayed.html, /Unknown or expired authorization state/);
+    assert.equal(exchanges.length, 1);
+  });
+
+  it('refuses callbacks with errors, missing parameters or unknown states', async () => {
+    const { auth, exchanges } = await createAuth();
+    const denied = await handleOAuthCallback(auth, new URLSearchParams({ error: 'access_denied' }));
+    assert.equal(denied.status, 400);
+    assert.match(denied.html, /Google returned: access_denied/);
+
+    const missing = await handleOAuthCallback(auth, new URLSearchParams({ code: 'code' }));
+    assert.match(missing.html, /missing code or state/);
+
+    const forged = await handleOAuthCallback(auth, new URLSearchParams({ code: 'code', state: '<script>' }));
+    assert.equal(forged.status, 400);
+    assert.equal(exchanges.length, 0);
+    assert.equal(auth.isAuthenticated(), false);
+  });
+
+  it('completes the flow on a loopback listener that closes afterwards', async () => {
+    const { auth } = await createAuth();
+    const loopback = new LoopbackCallbackServer(auth);
+    try {
+      const redirectUri = await loopback.start();
+      assert.match(redirectUri, new RegExp(`^http://127\\.0\\.0\\.1:\\d+${OAUTH_CALLBACK_PATH}$`));
+      auth.setRedirectUriProvider(() => loopback.start());
+      const state = new URL(await auth.getAuthUrl()).searchParams.get('state')!;
+
+      assert.equal((await fetch(new URL('/elsewhere', redirectUri))).status, 404);
+      const response = await fetch(`${redirectUri}?code=code&state=${state}`);
+      assert.equal(response.status, 200);
+      assert.equal(auth.isAuthenticated(), true);
+      await assert.rejects(fetch(`${redirectUri}?code=code&state=${state}`));
+    } finally {
+      loopback.stop();
+    }
+  });
+});
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { defaultFixture } from '../src/devices/fixture.js';
+import { parseCommand, ParseResult } from '../src/devices/index.js';
+
+const devices = defaultFixture.devices;
+
+function targets(result: ParseResult): string[] {
+  assert.equal(result.kind, 'command', result.kind === 'clarification' ? result.message : undefined);
+  return result.kind === 'command' ? result.devices.map((device) => device.id) : [];
+}
+
+describe('parseCommand', () => {
+  it('reads on/off phrases in either word order', () => {
+    const result = parseCommand('Turn off the kitchen lights.', devices);
+    assert.deepEqual(targets(result), ['light-kitchen']);
+    assert.deepEqual(result.kind === 'command' && result.execution, {
+      command: 'action.devices.commands.OnOff',
+      params: { on: false },
+    });
+    assert.deepEqual(targets(parseCommand('switch the porch light on', devices)), ['light-porch']);
+  });
+
+  it('parses brightness, temperature and colour values', () => {
+    const dim = parseCommand('dim living room lamp to 30%', devices);
+    assert.deepEqual(targets(dim), ['lamp-living-room']);
+    assert.deepEqual(dim.kind === 'command' && dim.execution.params, { brightness: 30 });
+
+    const heat = parseCommand('set bedroom to 21.5 degrees', devices);
+    assert.deepEqual(targets(heat), ['thermostat-bedroom']);
+    assert.deepEqual(heat.kind === 'command' && heat.execution.params, { thermostatTemperatureSetpoint: 21.5 });
+
+    const color = parseCommand('make the kitchen lights warm white', devices);
+    assert.deepEqual(color.kind === 'command' && color.execution.params, {
+      color: { name: 'warm white', temperature: 2700 },
+    });
+  });
+
+  it('matches names and nicknames', () => {
+    assert.deepEqual(targets(parseCommand('unlock the front door', devices)), ['lock-front-door']);
+    assert.deepEqual(targets(parseCommand('turn on the reading lamp', devices)), ['lamp-living-room']);
+  });
+
+  it('targets every capable device for "all"', () => {
+    assert.deepEqual(targets(parseCommand('turn off all lights', devices)).sort(), [
+      'lamp-bedroom',
+      'lamp-living-room',
+      'light-kitchen',
+      'light-porch',
+    ]);
+  });
+
+  it('asks which device is meant instead of guessing', () => {
+    const result = parseCommand('turn on the light', devices);
+    assert.equal(result.kind, 'clarification');
+    assert.deepEqual(result.kind === 'clarification' && result.candidates.map((device) => device.id), [
+      'light-kitchen',
+      'light-porch',
+    ]);
+  });
+
+  it('prefers devices named by a word over devices of that type', () => {
+    const lamps = parseCommand('turn on the lamp', devices);
+    assert.deepEqual(lamps.kind === 'clarification' && lamps.candidates.map((device) => device.id), [
+      'lamp-living-room',
+      'lamp-bedroom',
+    ]);
+
+    const oneLamp = devices.filter((device) => device.id !== 'lamp-bedroom');
+    assert.deepEqual(targets(parseCommand('turn on the lamp', oneLamp)), ['lamp-living-room']);
+    assert.deepEqual(targets(parseCommand('dim the bedroom lamp to 10%', devices)), ['lamp-bedroom']);
+  });
+
+  it('falls back to type words when no name matches', () => {
+    const bulbs = parseCommand('turn on the bulb', devices);
+    assert.equal(bulbs.kind === 'clarification' && bulbs.candidates.length, 4);
+    assert.deepEqual(targets(parseCommand('set the heating to 22 degrees', devices)), ['thermostat-bedroom']);
+  });
+
+  it('rejects phrases and devices it does not know', () => {
+    assert.throws(() => parseCommand('make me a sandwich', devices), /Could not understand/);
+    assert.throws(() => parseCommand('turn on the jacuzzi', devices), /No device matches "the jacuzzi"/);
+  });
+});
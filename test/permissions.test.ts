@@ -0,0 +1,167 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { ConfirmationGate } from '../src/permissions.js';
+import { ToolContext } from '../src/registry.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import {
+  CommandResponse,
+  ConfirmationRequest,
+  createTestHome,
+  DeviceStates,
+  resultJson,
+  resultText,
+  TestHome,
+} from './helpers.js';
+
+const registry = createToolRegistry();
+const UNLOCK = { command: 'unlock the front door' };
+
+describe('sensitive commands', () => {
+  let home: TestHome;
+  let context: ToolContext;
+  const run = async (args: object) =>
+    resultJson<ConfirmationRequest | CommandResponse>(await registry.callTool('execute_command', args, context));
+
+  beforeEach(async () => {
+    home = await createTestHome();
+    context = home.accounts.primary().createContext((await home.createKey()).caller);
+  });
+  afterEach(() => home.cleanup());
+
+  it('run once the challenge for the same command is echoed back, once', async () => {
+    const asked = (await run(UNLOCK)) as ConfirmationRequest;
+    assert.equal(asked.confirmationRequired, true);
+    assert.equal(asked.expiresInSeconds, 120);
+    const [device] = asked.devices;
+    assert.deepEqual(device, { id: 'lock-front-door', name: 'Front Door', type: 'action.devices.types.LOCK' });
+
+    // A challenge only confirms the command it was issued for
+    const garage = await run({ command: 'open the garage door', confirmation: asked.challenge });
+    assert.equal((garage as ConfirmationRequest).confirmationRequired, true);
+
+    const ran = (await run({ ...UNLOCK, confirmation: asked.challenge })) as CommandResponse;
+    assert.equal(ran.payload.commands[0].status, 'SUCCESS');
+    const replayed = (await run({ ...UNLOCK, confirmation: asked.challenge })) as ConfirmationRequest;
+    assert.equal(replayed.confirmationRequired, true);
+  });
+
+  it('run without confirmation for elevated keys and other devices', async () => {
+    assert.equal(((await run({ command: 'turn on the porch light' })) as CommandResponse).payload.commands.length, 1);
+
+    context = home.accounts.primary().createContext((await home.createKey(['elevated'])).caller);
+    const ran = (await run(UNLOCK)) as CommandResponse;
+    assert.equal(ran.payload.commands[0].status, 'SUCCESS');
+  });
+});
+
+describe('key device policies', () => {
+  let home: TestHome;
+
+  beforeEach(async () => {
+    home = await createTestHome();
+  });
+  afterEach(() => home.cleanup());
+
+  async function contextFor(devices: { allow?: string[]; deny?: string[] }): Promise<ToolContext> {
+    const { record } = await home.accounts.keys.create({
+      name: 'policy',
+      user: 'default',
+      scopes: ['read', 'control'],
+      devices,
+    });
+    const caller = await home.accounts.callerForKey(record.id, 'ws');
+    return home.accounts.primary().createContext(caller!);
+  }
+
+  it('hide denied devices and rooms as if they did not exist', async () => {
+    const context = await contextFor({ allow: ['Bedroom', 'light-porch'], deny: ['thermostat-bedroom'] });
+    const devices = await context.devices.listDevices();
+    assert.deepEqual(devices.map(({ id }) => id).sort(), ['lamp-bedroom', 'light-porch']);
+
+    const { devices: states } = resultJson<DeviceStates>(
+      await registry.callTool('get_device_states', { deviceIds: ['Bedside Lamp', 'Kitchen Lights'] }, context)
+    );
+    assert.equal(states['lamp-bedroom'].status, 'SUCCESS');
+    assert.equal(states['Kitchen Lights'].errorCode, 'deviceNotFound');
+
+    const unlock = await registry.callTool('execute_command', UNLOCK, context);
+    assert.equal(unlock.isError, true);
+    assert.match(resultText(unlock), /No device matches "the front door"/);
+    const [result] = await context.devices.execute(['lock-front-door'], {
+      command: 'action.devices.commands.LockUnlock',
+      params: { lock: false },
+    });
+    assert.deepEqual(result, { ids: ['lock-front-door'], status: 'ERROR', errorCode: 'deviceNotFound' });
+    const { 'lock-front-door': lock } = await home.context().devices.queryStates(['lock-front-door']);
+    assert.equal(lock.isLocked, true);
+  });
+});
+
+describe('confirmation PIN', () => {
+  let home: TestHome;
+  let context: ToolContext;
+  const unlock = async (confirmation?: string) =>
+    resultJson<ConfirmationRequest | CommandResponse>(
+      await registry.callTool('execute_command', { ...UNLOCK, confirmation }, context)
+    );
+  const locked = async () => (await context.devices.queryStates(['lock-front-door']))['lock-front-door'].isLocked;
+
+  beforeEach(async () => {
+    mock.timers.enable({ apis: ['Date'] });
+    home = await createTestHome({ CONFIRMATION_PIN: '1234' });
+    context = home.accounts.primary().createContext((await home.createKey()).caller);
+  });
+  afterEach(async () => {
+    mock.timers.reset();
+    await home.cleanup();
+  });
+
+  it('runs the command with the right PIN', async () => {
+    const asked = (await unlock()) as ConfirmationRequest;
+    assert.equal(asked.confirmationRequired, true);
+    assert.match(asked.message, /Ask the user for the confirmation PIN/);
+
+    const wrong = (await unlock('0000')) as ConfirmationRequest;
+    assert.match(wrong.message, /Incorrect confirmation PIN. 4 attempts left/);
+    assert.equal(await locked(), true);
+
+    const ran = (await unlock('1234')) as CommandResponse;
+    assert.equal(ran.payload.commands[0].status, 'SUCCESS');
+    assert.equal(await locked(), false);
+  });
+
+  it('locks a key out after five wrong PINs, even for the right one', async () => {
+    for (const pin of ['0000', '1111', '2222', '3333', '4444']) {
+      assert.equal(((await unlock(pin)) as ConfirmationRequest).confirmationRequired, true);
+    }
+    const refused = (await unlock('1234')) as ConfirmationRequest;
+    assert.match(refused.message, /Too many incorrect confirmation PINs/);
+    assert.equal(refused.retryAfterSeconds, 15 * 60);
+    assert.equal(await locked(), true);
+
+    // Other keys are not affected
+    const other = home.accounts.primary().createContext((await home.createKey()).caller);
+    const ran = await registry.callTool('execute_command', { ...UNLOCK, confirmation: '1234' }, other);
+    assert.equal(resultJson<CommandResponse>(ran).payload.commands[0].status, 'SUCCESS');
+  });
+
+  it('lets the key try again once the lockout ends', async () => {
+    for (const pin of ['0000', '1111', '2222', '3333', '4444']) {
+      await unlock(pin);
+    }
+    mock.timers.tick(15 * 60 * 1000);
+    const ran = (await unlock('1234')) as CommandResponse;
+    assert.equal(ran.payload.commands[0].status, 'SUCCESS');
+  });
+
+  it('forgets wrong PINs after a correct one', () => {
+    const gate = new ConfirmationGate('1234');
+    const subject = { command: 'unlock' };
+    for (let round = 0; round < 3; round++) {
+      for (const pin of ['0000', '1111', '2222', '3333']) {
+        assert.equal(gate.check(subject, pin, 'key').confirmed, false);
+      }
+      assert.equal(gate.check(subject, '1234', 'key').confirmed, true);
+    }
+  });
+});
@@ -0,0 +1,164 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { ToolContext } from '../src/registry.js';
+import { Scheduler } from '../src/scheduler/index.js';
+import { builtinPlugins, createToolRegistry } from '../src/tools/index.js';
+import { scheduleTools } from '../src/tools/schedules.js';
+import {
+  CommandPreview,
+  CommandResponse,
+  createTestHome,
+  DryRun,
+  resultJson,
+  SceneRun,
+  ScenePreview,
+  SchedulePreview,
+  ScheduleSummary,
+  TestHome,
+} from './helpers.js';
+
+describe('dry runs', () => {
+  let home: TestHome;
+  const registry = createToolRegistry();
+
+  beforeEach(async () => {
+    home = await createTestHome();
+  });
+  afterEach(() => home.cleanup());
+
+  const dryRun = async (args: object, context = home.context()) =>
+    resultJson<DryRun>(await registry.callTool('execute_command', { ...args, dryRun: true }, context));
+
+  it('plan the change per device without running or auditing anything', async () => {
+    const result = await dryRun({
+      command: 'action.devices.commands.OnOff',
+      params: { on: true },
+      devices: ['Kitchen Lights', 'Porch Light', 'Guest Room Plug', 'Bedroom Thermostat'],
+    });
+    assert.equal(result.confirmationRequired, false);
+    assert.deepEqual(result.plan, [
+      { id: 'light-kitchen', name: 'Kitchen Lights', status: 'UNCHANGED', current: { on: true }, target: { on: true } },
+      { id: 'light-porch', name: 'Porch Light', status: 'PLANNED', current: { on: false }, target: { on: true } },
+      { id: 'plug-guest-room', name: 'Guest Room Plug', status: 'OFFLINE', errorCode: 'deviceOffline' },
+      {
+        id: 'thermostat-bedroom',
+        name: 'Bedroom Thermostat',
+        status: 'ERROR',
+        errorCode: 'functionNotSupported',
+        debugString: 'Bedroom Thermostat does not support action.devices.traits.OnOff',
+      },
+    ]);
+
+    const states = await home.context().devices.queryStates(['light-porch']);
+    assert.equal(states['light-porch'].on, false);
+    assert.deepEqual(await home.accounts.audit.query({}), []);
+  });
+
+  it('interpret plain-language commands and flag the confirmation a run would need', async () => {
+    const unlock = await dryRun({ command: 'unlock the front door' });
+    assert.deepEqual(unlock.interpretation?.devices, ['lock-front-door']);
+    assert.equal(unlock.confirmationRequired, true);
+    assert.equal(unlock.plan[0].current?.isLocked, true);
+    assert.equal(unlock.plan[0].target?.isLocked, false);
+
+    const elevated = await dryRun({ command: 'unlock the front door' }, home.context(['read', 'control', 'elevated']));
+    assert.equal(elevated.confirmationRequired, false);
+    const states = await home.context().devices.queryStates(['lock-front-door']);
+    assert.equal(states['lock-front-door'].isLocked, true);
+  });
+});
+
+describe('COMMAND_POLICY=confirm', () => {
+  let home: TestHome;
+  let scheduler: Scheduler;
+  let context: ToolContext;
+  let call: <T>(name: string, args: object) => Promise<T>;
+
+  beforeEach(async () => {
+    home = await createTestHome({ COMMAND_POLICY: 'confirm' });
+    scheduler = new Scheduler(home.accounts, path.join(home.dir, 'schedules.json'));
+    await scheduler.start();
+    const registry = createToolRegistry([...builtinPlugins, scheduleTools(scheduler)]);
+    const { caller } = await home.createKey();
+    context = home.accounts.primary().createContext(caller);
+    call = async <T>(name: string, args: object) => resultJson<T>(await registry.callTool(name, args, context));
+  });
+  afterEach(async () => {
+    scheduler.stop();
+    await home.cleanup();
+  });
+
+  const porchOn = async () => (await context.devices.queryStates(['light-porch']))['light-porch'].on;
+
+  it('execute_command runs only with a token from the preview', async () => {
+    const args = { command: 'turn on the porch light' };
+    const preview = await call<CommandPreview>('execute_command', args);
+    assert.equal(preview.confirmationRequired, true);
+    assert.deepEqual(preview.plan.map(({ id, status }) => [id, status]), [['light-porch', 'PLANNED']]);
+    assert.equal(await porchOn(), false);
+
+    const { confirmationToken } = preview;
+    const ran = await call<CommandResponse>('execute_command', { ...args, confirmationToken });
+    assert.equal(ran.payload.commands[0].status, 'SUCCESS');
+    assert.equal(await porchOn(), true);
+
+    const reused = await call<CommandPreview>('execute_command', { ...args, confirmationToken });
+    assert.equal(reused.confirmationRequired, true);
+    assert.match(reused.message, /invalid, expired/);
+  });
+
+  it('run_scene previews every step and runs with the token', async () => {
+    await call('create_scene', {
+      name: 'evening',
+      steps: [{ command: 'turn on the porch light' }, { command: 'dim the kitchen lights to 20%' }],
+    });
+
+    const preview = await call<ScenePreview>('run_scene', { name: 'evening' });
+    assert.equal(preview.confirmationRequired, true);
+    assert.deepEqual(
+      preview.steps.map(({ step, plan }) => [step, plan[0].id, plan[0].target]),
+      [
+        [1, 'light-porch', { on: true }],
+        [2, 'light-kitchen', { brightness: 20 }],
+      ]
+    );
+    assert.equal(await porchOn(), false);
+
+    const { confirmationToken } = preview;
+    const ran = await call<SceneRun>('run_scene', { name: 'evening', confirmationToken });
+    assert.equal(ran.status, 'SUCCESS');
+    assert.equal(await porchOn(), true);
+  });
+
+  it('schedule_command previews the command and schedules it with the token', async () => {
+    const args = { command: 'turn on the porch light', cron: '0 22 * * *' };
+    const preview = await call<SchedulePreview>('schedule_command', args);
+    assert.equal(preview.confirmationRequired, true);
+    assert.equal(preview.when, 'cron 0 22 * * *');
+    assert.equal(preview.plan[0].id, 'light-porch');
+    assert.deepEqual(scheduler.list('default'), []);
+
+    const { confirmationToken } = preview;
+    const scheduled = await call<{ scheduled: ScheduleSummary }>('schedule_command', { ...args, confirmationToken });
+    assert.deepEqual(scheduled.scheduled.devices, ['light-porch']);
+    assert.equal(scheduler.list('default').length, 1);
+  });
+
+  it('flags dry runs as needing a token without issuing one', async () => {
+    const result = await call<DryRun>('execute_command', { command: 'turn on the porch light', dryRun: true });
+    assert.equal(result.confirmationRequired, true);
+    assert.equal('confirmationToken' in result, false);
+    assert.equal(await porchOn(), false);
+  });
+
+  it('binds tokens to the request they previewed', async () => {
+    const preview = await call<CommandPreview>('execute_command', { command: 'turn on the porch light' });
+    const other = await call<CommandPreview>('execute_command', {
+      command: 'turn on the kitchen lights',
+      confirmationToken: preview.confirmationToken,
+    });
+    assert.equal(other.confirmationRequired, true);
+    assert.deepEqual(await home.accounts.audit.query({}), []);
+  });
+});
@@ -0,0 +1,100 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../src/core.js';
+import { KeyScope } from '../src/keys.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { createTestHome, TestHome } from './helpers.js';
+
+const registry = createToolRegistry();
+
+// The instructions a prompt ends with, after the embedded inventory
+function instructions({ messages }: GetPromptResult): string {
+  const { content } = messages[messages.length - 1];
+  return content.type === 'text' ? content.text : '';
+}
+
+describe('prompts', () => {
+  let home: TestHome;
+
+  async function connect(scopes?: KeyScope[]): Promise<Client> {
+    const server = createMcpServer(registry, home.context(scopes));
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return client;
+  }
+
+  beforeEach(async () => {
+    home = await createTestHome();
+  });
+  afterEach(() => home.cleanup());
+
+  it('are only listed and served for keys that can read', async () => {
+    const names = (await (await connect(['read'])).listPrompts()).prompts.map(({ name }) => name);
+    assert.deepEqual(names, ['morning_briefing', 'energy_check', 'bedtime', 'troubleshoot_device']);
+
+    const unscoped = await connect([]);
+    assert.deepEqual((await unscoped.listPrompts()).prompts, []);
+    await assert.rejects(unscoped.getPrompt({ name: 'morning_briefing' }), /"read" scope/);
+    await assert.rejects((await connect()).getPrompt({ name: 'make_coffee' }), /Unknown prompt: make_coffee/);
+  });
+
+  it('embed the live inventory of the home or one room', async () => {
+    const client = await connect();
+    const briefing = await client.getPrompt({ name: 'morning_briefing', arguments: { room: 'Kitchen' } });
+    const [inventory] = briefing.messages;
+    assert.equal(inventory.content.type, 'resource');
+    if (inventory.content.type === 'resource') {
+      assert.equal(inventory.content.resource.uri, 'home://rooms/Kitchen');
+    }
+    assert.match(instructions(briefing), /morning briefing of my Kitchen devices/);
+
+    const energy = instructions(await client.getPrompt({ name: 'energy_check' }));
+    assert.match(energy, /- Kitchen Lights \(light-kitchen, Kitchen\)/);
+    assert.doesNotMatch(energy, /Porch Light/);
+  });
+
+  it('build a bedtime plan from what is on, unlocked and open', async () => {
+    const client = await connect();
+    await home.context().devices.execute(['lock-front-door'], {
+      command: 'action.devices.commands.LockUnlock',
+      params: { lock: false },
+    });
+    const text = instructions(
+      await client.getPrompt({ name: 'bedtime', arguments: { keepOn: 'Porch Light', temperature: '18' } })
+    );
+    assert.match(text, /Unlocked locks:\n- Front Door \(lock-front-door, Hallway\)/);
+    assert.match(text, /Open doors and covers:\n- none/);
+    assert.match(text, /except Porch Light/);
+    assert.match(text, /set thermostats to 18°C/);
+  });
+
+  it('troubleshoot with the tools the key may call', async () => {
+    const control = instructions(
+      await (await connect()).getPrompt({ name: 'troubleshoot_device', arguments: { device: 'guest room plug' } })
+    );
+    assert.match(control, /Guest Room Plug \(plug-guest-room\) is not working properly\. It is offline/);
+    assert.match(control, /get_audit_log/);
+    assert.match(control, /auth_status/);
+
+    const readOnly = await connect(['read']);
+    const offline = instructions(await readOnly.getPrompt({ name: 'troubleshoot_device' }));
+    assert.match(offline, /These devices are offline:\n- .*\(plug-guest-room, Guest Room\)/);
+    assert.match(offline, /get_state_changes/);
+    assert.doesNotMatch(offline, /get_audit_log/);
+    const one = instructions(
+      await readOnly.getPrompt({ name: 'troubleshoot_device', arguments: { device: 'plug-guest-room' } })
+    );
+    assert.match(one, /get_state_changes/);
+    assert.doesNotMatch(one, /get_audit_log|auth_status/);
+
+    await assert.rejects(
+      readOnly.getPrompt({ name: 'troubleshoot_device', arguments: { device: 'toaster' } }),
+      /toaster/
+    );
+  });
+});
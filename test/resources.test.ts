@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../src/core.js';
+import { DeviceState } from '../src/devices/index.js';
+import { KeyScope } from '../src/keys.js';
+import { ToolContext } from '../src/registry.js';
+import { deviceUri, mountResourceSubscriptions, roomUri, STRUCTURE_URI } from '../src/resources.js';
+import { SubscriptionManager } from '../src/subscriptions.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { createTestHome, TestHome } from './helpers.js';
+
+const registry = createToolRegistry();
+
+interface DeviceResource {
+  id: string;
+  room?: string;
+  state: DeviceState;
+}
+
+describe('home:// resources', () => {
+  let home: TestHome;
+  let subscriptions: SubscriptionManager;
+
+  // A client on an in-memory connection to a server wired like server.ts
+  async function connect(scopes?: KeyScope[]): Promise<{ client: Client; context: ToolContext }> {
+    const context = home.context(scopes);
+    const server = createMcpServer(registry, context, { resources: { subscribe: true } });
+    mountResourceSubscriptions(server, context, subscriptions);
+    subscriptions.connect(context, async (_change, topics) => {
+      for (const uri of topics) {
+        await server.sendResourceUpdated({ uri });
+      }
+    });
+
+    const client = new Client({ name: 'test', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+    return { client, context };
+  }
+
+  const read = async <T>(client: Client, uri: string): Promise<T> => {
+    const { contents } = await client.readResource({ uri });
+    return JSON.parse(String(contents[0].text));
+  };
+
+  beforeEach(async () => {
+    home = await createTestHome();
+    subscriptions = new SubscriptionManager(60_000);
+  });
+  afterEach(() => home.cleanup());
+
+  it('lists every device and room for keys that can read', async () => {
+    const { client } = await connect();
+    const uris = (await client.listResources()).resources.map(({ uri }) => uri);
+    assert.ok(uris.includes('home://devices'));
+    assert.ok(uris.includes(STRUCTURE_URI));
+    assert.ok(uris.includes('home://devices/light-kitchen'));
+    assert.ok(uris.includes('home://rooms/Living%20Room'));
+
+    const { client: unscoped } = await connect([]);
+    const fixed = (await unscoped.listResources()).resources.map(({ uri }) => uri);
+    assert.deepEqual(fixed, ['home://devices', STRUCTURE_URI]);
+    await assert.rejects(unscoped.readResource({ uri: 'home://devices' }), /require an API key with the "read" scope/);
+  });
+
+  it('reads devices and rooms with their live state', async () => {
+    const { client } = await connect();
+    const porch = await read<DeviceResource>(client, deviceUri('light-porch'));
+    assert.equal(porch.room, 'Outdoor');
+    assert.deepEqual(porch.state, { on: false, online: true });
+
+    const bedroom = await read<{ room: string; devices: DeviceResource[] }>(client, roomUri('bedroom'));
+    assert.equal(bedroom.room, 'Bedroom');
+    assert.deepEqual(bedroom.devices.map(({ id }) => id), ['lamp-bedroom', 'thermostat-bedroom']);
+
+    const structure = await read<{ structures: Array<{ structure: string; rooms: Array<{ room: string }> }> }>(
+      client,
+      STRUCTURE_URI
+    );
+    assert.equal(structure.structures[0].structure, 'Home');
+    assert.ok(structure.structures[0].rooms.some(({ room }) => room === 'Garage'));
+
+    await assert.rejects(client.readResource({ uri: deviceUri('toaster') }), /Unknown resource: .*toaster/);
+    await assert.rejects(client.readResource({ uri: 'home://garden' }), /Unknown resource/);
+  });
+
+  it('sends resources/updated for subscribed resources until unsubscribed', async () => {
+    const { client, context } = await connect();
+    const updated: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, async (notification) => {
+      updated.push(notification.params.uri);
+    });
+    await client.subscribeResource({ uri: roomUri('Outdoor') });
+    await assert.rejects(client.subscribeResource({ uri: STRUCTURE_URI }), /has no live state to subscribe to/);
+
+    const on = { command: 'action.devices.commands.OnOff', params: { on: true } };
+    await context.devices.execute(['light-porch'], on);
+    await context.devices.queryStates(['light-porch']);
+    await client.ping();
+    assert.deepEqual(updated, [roomUri('Outdoor')]);
+
+    await client.unsubscribeResource({ uri: roomUri('Outdoor') });
+    await context.devices.execute(['light-porch'], { ...on, params: { on: false } });
+    await context.devices.queryStates(['light-porch']);
+    await client.ping();
+    assert.deepEqual(updated, [roomUri('Outdoor')]);
+    await client.close();
+  });
+});
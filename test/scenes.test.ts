@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { Scene, SceneStore } from '../src/scenes.js';
+import { builtinPlugins, createToolRegistry } from '../src/tools/index.js';
+import { createTestHome, resultJson, resultText, SceneRun, TestHome } from './helpers.js';
+
+describe('scene delays', () => {
+  let home: TestHome;
+  const registry = createToolRegistry(builtinPlugins);
+  const call = (name: string, args: object) => registry.callTool(name, args, home.context());
+
+  beforeEach(async () => {
+    home = await createTestHome();
+  });
+  afterEach(() => home.cleanup());
+
+  const step = (delaySeconds: number) => ({
+    command: 'OnOff',
+    params: { on: true },
+    devices: ['light-porch'],
+    delaySeconds,
+  });
+
+  it('refuses to save a scene whose delays add up past the limit', async () => {
+    const result = await call('create_scene', { name: 'Slow', steps: [step(30), step(30)] });
+    assert.equal(result.isError, true);
+    assert.match(resultText(result), /waits 60s in total; delays may add up to 45s/);
+    assert.deepEqual(resultJson<{ scenes: Scene[] }>(await call('list_scenes', {})).scenes, []);
+
+    const single = await call('create_scene', { name: 'Slower', steps: [step(600)] });
+    assert.equal(single.isError, true);
+  });
+
+  it('refuses to run a hand-written scene whose delays add up past the limit', async () => {
+    const scenes = [{ name: 'Slow', steps: [step(30), step(30)] }];
+    await writeFile(path.join(home.dir, 'scenes.yaml'), JSON.stringify({ scenes }));
+
+    const result = await call('run_scene', { name: 'Slow' });
+    assert.equal(result.isError, true);
+    assert.match(resultText(result), /Use schedule_command for longer waits/);
+    const states = await home.context().devices.queryStates(['light-porch']);
+    assert.equal(states['light-porch'].on, false);
+  });
+
+  it('runs scenes within the limit', async () => {
+    resultJson(await call('create_scene', { name: 'Porch', steps: [step(0)] }));
+    const ran = resultJson<SceneRun>(await call('run_scene', { name: 'Porch' }));
+    assert.equal(ran.status, 'SUCCESS');
+  });
+});
+
+describe('scene store', () => {
+  let home: TestHome;
+  const porch = { name: 'Porch', steps: [{ command: 'OnOff', params: { on: true }, devices: ['light-porch'] }] };
+
+  beforeEach(async () => {
+    home = await createTestHome();
+  });
+  afterEach(() => home.cleanup());
+
+  it('keeps every scene saved at the same time', async () => {
+    const { scenes } = home.accounts.primary();
+    const names = Array.from({ length: 10 }, (_value, index) => `Scene ${index}`);
+    await Promise.all(names.map((name) => scenes.save({ ...porch, name })));
+    assert.deepEqual((await scenes.list()).map(({ name }) => name).sort(), names);
+
+    // A failed update doesn't hold up the ones behind it
+    const [duplicate, deleted] = await Promise.allSettled([
+      scenes.save({ ...porch, name: 'Scene 0' }),
+      scenes.delete('Scene 1'),
+    ]);
+    assert.equal(duplicate.status, 'rejected');
+    assert.equal(deleted.status, 'fulfilled');
+    assert.equal((await scenes.list()).length, 9);
+  });
+
+  it('reads and writes JSON scene files', async () => {
+    const scenes = new SceneStore(path.join(home.dir, 'scenes.json'));
+    await scenes.save(porch);
+    const file = JSON.parse(await readFile(scenes.filePath, 'utf-8'));
+    assert.deepEqual(file, { scenes: [porch] });
+    await writeFile(scenes.filePath, JSON.stringify({ scenes: [{ name: 'Broken' }] }));
+    await assert.rejects(scenes.list(), /Invalid scenes file .*scenes\.json: scenes\.0\.steps: Required/);
+  });
+});
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import path from 'path';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { setTimeout as sleep } from 'timers/promises';
+import { NewSchedule, Scheduler } from '../src/scheduler/index.js';
+import { createTestHome, TestHome } from './helpers.js';
+
+const porchOn = (at: Date): NewSchedule => ({
+  description: 'turn on the porch light',
+  trigger: { type: 'once', at: at.toISOString() },
+  execution: { command: 'action.devices.commands.OnOff', params: { on: true } },
+  devices: ['light-porch'],
+});
+
+async function until(condition: () => boolean | Promise<boolean>, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await condition())) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the scheduler');
+    }
+    await sleep(10);
+  }
+}
+
+describe('Scheduler', () => {
+  let home: TestHome;
+  let scheduler: Scheduler;
+
+  beforeEach(async () => {
+    home = await createTestHome();
+    scheduler = new Scheduler(home.accounts, path.join(home.dir, 'schedules.json'));
+    await scheduler.start();
+  });
+  afterEach(async () => {
+    scheduler.stop();
+    await home.cleanup();
+  });
+
+  it('runs a one-shot as its key when due and then removes it', async () => {
+    const { id, caller } = await home.createKey();
+    const schedule = await scheduler.add(caller, 'default', porchOn(new Date(Date.now() + 50)));
+    assert.equal(scheduler.list('default').length, 1);
+
+    await until(() => scheduler.list('default').length === 0);
+    const states = await home.accounts.primary().devices.queryStates(['light-porch']);
+    assert.equal(states['light-porch'].on, true);
+
+    const [entry] = await home.accounts.audit.query({});
+    assert.equal(entry.transport, 'scheduler');
+    assert.equal(entry.keyId, id);
+    assert.equal(entry.schedule, schedule.id);
+  });
+
+  it('drops schedules whose key was revoked, with an audit entry', async () => {
+    const { id, caller } = await home.createKey();
+    await scheduler.add(caller, 'default', porchOn(new Date(Date.now() + 50)));
+    await home.accounts.keys.revoke(id);
+
+    await until(() => scheduler.list('default').length === 0);
+    const states = await home.accounts.primary().devices.queryStates(['light-porch']);
+    assert.equal(states['light-porch'].on, false);
+    const [entry] = await home.accounts.audit.query({});
+    assert.match(entry.error ?? '', /no longer active/);
+  });
+
+  it('keeps schedules across restarts', async () => {
+    const { caller } = await home.createKey();
+    const added = await scheduler.add(caller, 'default', {
+      ...porchOn(new Date()),
+      trigger: { type: 'cron', cron: '0 22 * * *' },
+    });
+    scheduler.stop();
+
+    const restarted = new Scheduler(home.accounts, scheduler.filePath);
+    await restarted.start();
+    assert.deepEqual(restarted.list('default'), [added]);
+    restarted.stop();
+  });
+
+  it('refuses callers without an API key and times in the past', async () => {
+    await assert.rejects(scheduler.add(home.caller(), 'default', porchOn(new Date(Date.now() + 60000))), /API key/);
+    const { caller } = await home.createKey();
+    await assert.rejects(scheduler.add(caller, 'default', porchOn(new Date(Date.now() - 1000))), /in the past/);
+  });
+});
@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { after, before, describe, it } from 'node:test';
+import { hasScope } from '../src/keys.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { CommandResponse, createTestHome, DeviceStates, resultJson, resultText, TestHome } from './helpers.js';
+
+const registry = createToolRegistry();
+const names = (scopes: Parameters<typeof registry.listTools>[0]) => registry.listTools(scopes).map((tool) => tool.name);
+
+describe('key scopes', () => {
+  let home: TestHome;
+
+  before(async () => {
+    home = await createTestHome();
+  });
+  after(() => home.cleanup());
+
+  it('include the scopes below them', () => {
+    assert.equal(hasScope(['elevated'], 'read'), true);
+    assert.equal(hasScope(['elevated'], 'control'), true);
+    assert.equal(hasScope(['control'], 'read'), true);
+    assert.equal(hasScope(['control'], 'elevated'), false);
+    assert.equal(hasScope(['read'], 'control'), false);
+  });
+
+  it('list read tools for control and elevated keys', () => {
+    const all = names(undefined);
+    assert.deepEqual(names(['control']), all);
+    assert.deepEqual(names(['elevated']), all);
+    assert.ok(names(['read']).includes('get_device_states'));
+    assert.ok(!names(['read']).includes('execute_command'));
+  });
+
+  it('let control-only keys read and elevated-only keys control', async () => {
+    const args = { deviceIds: ['light-porch'] };
+    const read = await registry.callTool('get_device_states', args, home.context(['control']));
+    assert.equal(resultJson<DeviceStates>(read).devices['light-porch'].status, 'SUCCESS');
+
+    const unlock = { command: 'unlock the front door' };
+    const lock = await registry.callTool('execute_command', unlock, home.context(['elevated']));
+    assert.equal(resultJson<CommandResponse>(lock).payload.commands[0].status, 'SUCCESS');
+  });
+
+  it('refuse tools above the key', async () => {
+    const args = { command: 'turn on the porch light' };
+    const result = await registry.callTool('execute_command', args, home.context(['read']));
+    assert.equal(result.isError, true);
+    assert.match(resultText(result), /requires an API key with the "control" scope/);
+  });
+
+  it('cap every key at read with READ_ONLY', async () => {
+    const readOnly = await createTestHome({ READ_ONLY: 'true' });
+    try {
+      const { caller } = await readOnly.createKey(['elevated']);
+      assert.deepEqual(caller.scopes, ['read']);
+    } finally {
+      await readOnly.cleanup();
+    }
+  });
+});
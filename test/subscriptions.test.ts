@@ -0,0 +1,96 @@
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import { FakeBackend, StateCache, StateChange } from '../src/devices/index.js';
+import { ToolContext } from '../src/registry.js';
+import { SubscriptionManager } from '../src/subscriptions.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { DEVICE_TOPIC, subscriptionTools } from '../src/tools/subscriptions.js';
+import { createTestHome, resultJson, resultText, TestHome } from './helpers.js';
+
+const ON = { command: 'action.devices.commands.OnOff', params: { on: true } };
+
+describe('state change subscriptions', () => {
+  let home: TestHome;
+  let subscriptions: SubscriptionManager;
+  let call: (name: string, args: object, context: ToolContext) => Promise<{ subscribed: string[] }>;
+  // Changes delivered to the connections, with their topics
+  let delivered: Array<[StateChange, string[]]>;
+
+  const connect = (context: ToolContext) =>
+    subscriptions.connect(context, async (change, topics) => {
+      delivered.push([change, topics]);
+    });
+
+  beforeEach(async () => {
+    home = await createTestHome();
+    subscriptions = new SubscriptionManager(20);
+    delivered = [];
+    const registry = createToolRegistry([subscriptionTools(subscriptions)]);
+    call = async (name, args, context) => resultJson(await registry.callTool(name, args, context));
+  });
+  afterEach(() => home.cleanup());
+
+  it('notifies subscribed connections of changes read by anyone', async () => {
+    const context = home.context();
+    connect(context);
+    const { subscribed } = await call('subscribe_device', { devices: ['Porch Light', 'Kitchen'] }, context);
+    assert.deepEqual(subscribed, ['light-kitchen', 'light-porch']);
+
+    const other = home.context();
+    await other.devices.execute(['light-porch'], ON);
+    await other.devices.queryStates(['light-porch']);
+    assert.equal(delivered.length, 1);
+    const [[change, topics]] = delivered;
+    assert.equal(change.device, 'light-porch');
+    assert.deepEqual(change.changes, { on: { from: false, to: true } });
+    assert.deepEqual(topics, [DEVICE_TOPIC]);
+  });
+
+  it('stops notifying after unsubscribe or disconnect', async () => {
+    const context = home.context();
+    connect(context);
+    await call('subscribe_device', { devices: ['light-porch', 'lamp-bedroom'] }, context);
+    const { subscribed } = await call('unsubscribe_device', { devices: ['Porch Light'] }, context);
+    assert.deepEqual(subscribed, ['lamp-bedroom']);
+
+    const other = home.context();
+    await other.devices.execute(['light-porch'], ON);
+    await other.devices.queryStates(['light-porch']);
+    subscriptions.disconnect(context);
+    await other.devices.execute(['lamp-bedroom'], ON);
+    await other.devices.queryStates(['lamp-bedroom']);
+    assert.deepEqual(delivered, []);
+  });
+
+  it('polls subscribed devices for changes made elsewhere', async () => {
+    // A backend changed behind the cache's back, like a switch flipped by hand
+    const upstream = new FakeBackend();
+    const cache = new StateCache(upstream, 60_000);
+    const context: ToolContext = { ...home.context(), devices: cache, states: cache };
+    connect(context);
+    await subscriptions.subscribe(context, ['light-porch'], DEVICE_TOPIC);
+
+    await upstream.execute(['light-porch'], ON);
+    await sleep(100);
+    subscriptions.disconnect(context);
+    assert.deepEqual(
+      delivered.map(([change]) => change.changes),
+      [{ on: { from: false, to: true } }]
+    );
+  });
+
+  it('refuses connections that cannot receive notifications and devices the key cannot see', async () => {
+    const registry = createToolRegistry([subscriptionTools(subscriptions)]);
+    const stateless = await registry.callTool('subscribe_device', { devices: ['light-porch'] }, home.context());
+    assert.equal(stateless.isError, true);
+    assert.match(resultText(stateless), /need a long-lived connection/);
+
+    const context = home.accounts.primary().createContext({
+      ...home.caller(),
+      devicePolicy: { deny: ['Hallway'] },
+    });
+    connect(context);
+    await assert.rejects(subscriptions.subscribe(context, ['lock-front-door'], DEVICE_TOPIC), /Unknown devices/);
+  });
+});
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import { after, before, describe, it } from 'node:test';
+import {
+  createTokenStore,
+  EncryptedFileTokenStore,
+  EnvTokenStore,
+  FileTokenStore,
+  KeyValueTokenStore,
+  MemoryTokenStore,
+} from '../src/tokens.js';
+
+const TOKENS = { access_token: 'access', refresh_token: 'refresh', expiry_date: 1700000000000 };
+
+describe('token stores', () => {
+  let dir: string;
+
+  before(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'google-home-mcp-'));
+  });
+  after(() => rm(dir, { recursive: true, force: true }));
+
+  it('are picked with TOKEN_STORE', () => {
+    const tokenPath = path.join(dir, 'token.json');
+    assert.ok(createTokenStore({ TOKEN_PATH: tokenPath }) instanceof FileTokenStore);
+    assert.ok(createTokenStore({ TOKEN_STORE: 'memory' }) instanceof MemoryTokenStore);
+    assert.ok(createTokenStore({ TOKEN_STORE: 'env' }) instanceof EnvTokenStore);
+    assert.ok(
+      createTokenStore({ TOKEN_STORE: 'encrypted-file', TOKEN_ENCRYPTION_KEY: 'secret' }) instanceof
+        EncryptedFileTokenStore
+    );
+    assert.ok(createTokenStore({ TOKEN_STORE: 'kv', TOKEN_STORE_URL: 'http://kv' }) instanceof KeyValueTokenStore);
+
+    assert.throws(() => createTokenStore({ TOKEN_STORE: 'kv' }), /TOKEN_STORE=kv requires TOKEN_STORE_URL/);
+    assert.throws(() => createTokenStore({ TOKEN_STORE: 'encrypted-file' }), /requires TOKEN_ENCRYPTION_KEY/);
+    assert.throws(() => createTokenStore({ TOKEN_STORE: 'floppy' }), /Unknown TOKEN_STORE: floppy/);
+  });
+
+  it('keep tokens in a file until cleared', async () => {
+    const store = new FileTokenStore(path.join(dir, 'file-token.json'));
+    assert.equal(await store.load(), null);
+    await store.save(TOKENS);
+    assert.deepEqual(await new FileTokenStore(path.join(dir, 'file-token.json')).load(), TOKENS);
+    await store.clear();
+    assert.equal(await store.load(), null);
+  });
+
+  it('encrypt tokens at rest and need the same key to read them', async () => {
+    const filePath = path.join(dir, 'token.json.enc');
+    await new EncryptedFileTokenStore(filePath, 'correct horse').save(TOKENS);
+
+    const content = await readFile(filePath, 'utf-8');
+    assert.ok(!content.includes('refresh'));
+    assert.deepEqual(await new EncryptedFileTokenStore(filePath, 'correct horse').load(), TOKENS);
+    await assert.rejects(new EncryptedFileTokenStore(filePath, 'battery staple').load(), /Could not decrypt/);
+  });
+
+  it('read GOOGLE_TOKEN and keep refreshed tokens in memory', async () => {
+    const store = createTokenStore({ TOKEN_STORE: 'env', GOOGLE_TOKEN: JSON.stringify(TOKENS) });
+    assert.deepEqual(await store.load(), TOKENS);
+    await store.save({ ...TOKENS, access_token: 'fresh' });
+    assert.equal((await store.load())?.access_token, 'fresh');
+    assert.equal(await createTokenStore({ TOKEN_STORE: 'env' }).load(), null);
+  });
+
+  it('use a REST key-value service with a bearer token', async () => {
+    const values = new Map<string, string>();
+    const requests: string[] = [];
+    const server = http.createServer(async (req, res) => {
+      requests.push(`${req.method} ${req.url} ${req.headers.authorization}`);
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) {
+        chunks.push(chunk);
+      }
+      const key = req.url ?? '';
+      if (req.method === 'PUT') {
+        values.set(key, Buffer.concat(chunks).toString());
+      } else if (req.method === 'DELETE') {
+        values.delete(key);
+      } else if (!values.has(key)) {
+        res.statusCode = 404;
+      }
+      res.end(req.method === 'GET' ? values.get(key) : undefined);
+    });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+
+    try {
+      const store = createTokenStore(
+        {
+          TOKEN_STORE: 'kv',
+          TOKEN_STORE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/tokens/`,
+          TOKEN_STORE_AUTH: 'kv-secret',
+        },
+        'token-alice'
+      );
+      assert.equal(await store.load(), null);
+      await store.save(TOKENS);
+      assert.deepEqual(await store.load(), TOKENS);
+      await store.clear();
+      assert.equal(await store.load(), null);
+      assert.deepEqual(requests, [
+        'GET /tokens/token-alice Bearer kv-secret',
+        'PUT /tokens/token-alice Bearer kv-secret',
+        'GET /tokens/token-alice Bearer kv-secret',
+        'DELETE /tokens/token-alice Bearer kv-secret',
+        'GET /tokens/token-alice Bearer kv-secret',
+      ]);
+    } finally {
+      server.close();
+    }
+  });
+});
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { CronExpression, nextRun, nextSunEvent, parseDelay, parseTime, sunTimes } from '../src/scheduler/index.js';
+
+// Cron and clock times use the process time zone; run these in UTC
+process.env.TZ = 'UTC';
+
+const utc = (iso: string) => new Date(`${iso}Z`);
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+
+function assertNear(actual: Date, expected: Date, toleranceMinutes: number) {
+  const minutes = Math.abs(actual.getTime() - expected.getTime()) / 60000;
+  assert.ok(minutes <= toleranceMinutes, `${actual.toISOString()} is ${minutes} min from ${expected.toISOString()}`);
+}
+
+describe('CronExpression', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    const cron = new CronExpression('30 7 * * *');
+    assert.equal(cron.next(utc('2026-03-10T07:29:59')).toISOString(), '2026-03-10T07:30:00.000Z');
+    assert.equal(cron.next(utc('2026-03-10T07:30:00')).toISOString(), '2026-03-11T07:30:00.000Z');
+  });
+
+  it('supports lists, ranges, steps and macros', () => {
+    const workHours = new CronExpression('*/15 9-17 * * 1-5');
+    assert.equal(workHours.next(utc('2026-03-13T17:50')).toISOString(), '2026-03-16T09:00:00.000Z');
+    const weekends = new CronExpression('0 22 * * 0,6');
+    assert.equal(weekends.next(utc('2026-03-10T12:00')).toISOString(), '2026-03-14T22:00:00.000Z');
+    const monthly = new CronExpression('@monthly');
+    assert.equal(monthly.next(utc('2026-12-15T00:00')).toISOString(), '2027-01-01T00:00:00.000Z');
+    // 7 is Sunday too
+    const sundays = new CronExpression('0 8 * * 7');
+    assert.equal(sundays.next(utc('2026-03-10T00:00')).toISOString(), '2026-03-15T08:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    const cron = new CronExpression('0 0 13 * 5');
+    assert.equal(cron.next(utc('2026-03-10T00:00')).toISOString(), '2026-03-13T00:00:00.000Z');
+    assert.equal(cron.next(utc('2026-03-13T00:00')).toISOString(), '2026-03-20T00:00:00.000Z');
+  });
+
+  it('rejects malformed and impossible expressions', () => {
+    assert.throws(() => new CronExpression('0 7 * *'), /Expected 5 fields/);
+    assert.throws(() => new CronExpression('61 * * * *'), /Invalid cron minute/);
+    assert.throws(() => new CronExpression('0 0 30 2 *').next(utc('2026-01-01T00:00')), /never matches/);
+  });
+});
+
+describe('sun times', () => {
+  it('computes sunrise and sunset to within a few minutes', () => {
+    const times = sunTimes(utc('2026-06-21T12:00'), LONDON);
+    assert.ok(times);
+    assertNear(times.sunrise, utc('2026-06-21T03:43'), 3);
+    assertNear(times.sunset, utc('2026-06-21T20:21'), 3);
+  });
+
+  it('returns null during polar night', () => {
+    assert.equal(sunTimes(utc('2026-12-21T12:00'), { latitude: 78.2, longitude: 15.6 }), null);
+  });
+
+  it('applies offsets and moves to the next day once the event has passed', () => {
+    const beforeSunset = nextSunEvent('sunset', -30, LONDON, utc('2026-06-21T12:00'));
+    assertNear(beforeSunset, utc('2026-06-21T19:51'), 3);
+    const tomorrow = nextSunEvent('sunrise', 0, LONDON, utc('2026-06-21T12:00'));
+    assertNear(tomorrow, utc('2026-06-22T03:43'), 3);
+  });
+});
+
+describe('triggers', () => {
+  it('parses delays and clock times', () => {
+    assert.equal(parseDelay('1h30m'), 90 * 60 * 1000);
+    assert.equal(parseDelay('2d 5s'), 2 * 24 * 60 * 60 * 1000 + 5000);
+    assert.throws(() => parseDelay('soon'), /Invalid delay/);
+
+    const now = utc('2026-03-10T23:30');
+    assert.equal(parseTime('23:00', now).toISOString(), '2026-03-11T23:00:00.000Z');
+    assert.equal(parseTime('23:45', now).toISOString(), '2026-03-10T23:45:00.000Z');
+    assert.throws(() => parseTime('2020-01-01T00:00:00Z', now), /in the past/);
+  });
+
+  it('computes the next run per trigger type', () => {
+    const now = utc('2026-06-21T12:00');
+    assert.equal(nextRun({ type: 'once', at: '2026-06-21T11:00:00Z' }, now), null);
+    assert.equal(nextRun({ type: 'cron', cron: '0 * * * *' }, now)?.toISOString(), '2026-06-21T13:00:00.000Z');
+    assert.throws(() => nextRun({ type: 'sun', event: 'sunset', offsetMinutes: 0 }, now), /LATITUDE and LONGITUDE/);
+  });
+});
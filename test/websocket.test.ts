@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import { WebSocket, WebSocketServer } from 'ws';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+import { Caller } from '../src/accounts.js';
+import { createMcpServer } from '../src/core.js';
+import { createToolRegistry } from '../src/tools/index.js';
+import { WebSocketServerTransport } from '../src/transports/websocket.js';
+import { createTestHome, RpcReply, TestHome } from './helpers.js';
+
+const registry = createToolRegistry();
+
+describe('WebSocket transport', () => {
+  let home: TestHome;
+  let wss: WebSocketServer;
+  let url: string;
+  // Set by each test before it connects
+  let caller: Caller;
+  let heartbeatIntervalMs = 0;
+
+  before(async () => {
+    home = await createTestHome();
+    wss = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await once(wss, 'listening');
+    url = `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+
+    // Wired like server.ts, minus the upgrade authentication
+    wss.on('connection', (ws) => {
+      const connected = caller;
+      const transport = new WebSocketServerTransport(ws, {
+        heartbeatIntervalMs,
+        authorize: () => home.accounts.isActive(connected),
+      });
+      void createMcpServer(registry, connected.account.createContext(connected)).connect(transport);
+    });
+  });
+  after(async () => {
+    wss.close();
+    await home.cleanup();
+  });
+
+  async function connect(): Promise<{ socket: WebSocket; request: <T = RpcReply>(message: object) => Promise<T> }> {
+    const socket = new WebSocket(url);
+    await once(socket, 'open');
+    const request = async <T = RpcReply>(message: object): Promise<T> => {
+      socket.send(JSON.stringify(message));
+      const [data] = await once(socket, 'message');
+      return JSON.parse(data.toString());
+    };
+    return { socket, request };
+  }
+
+  it('answers single messages and batches', async () => {
+    ({ caller } = await home.createKey());
+    const { socket, request } = await connect();
+    try {
+      assert.deepEqual(await request({ jsonrpc: '2.0', id: 1, method: 'ping' }), { jsonrpc: '2.0', id: 1, result: {} });
+      const replies = await request<RpcReply[]>([
+        { jsonrpc: '2.0', id: 2, method: 'ping' },
+        { jsonrpc: '2.0', id: 3, method: 'tools/list' },
+      ]);
+      assert.deepEqual(replies.map(({ id }) => id).sort(), [2, 3]);
+      assert.equal((await request({ nope: true })).error?.code, -32600);
+    } finally {
+      socket.close();
+    }
+  });
+
+  it('reports a frame that fails and keeps handling the next ones', async () => {
+    const failing = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await once(failing, 'listening');
+    const errors: Error[] = [];
+    const received: JSONRPCMessage[] = [];
+    const second = new Promise<void>((resolve) => {
+      failing.on('connection', (ws) => {
+        const transport = new WebSocketServerTransport(ws, { heartbeatIntervalMs: 0 });
+        transport.onerror = (error) => errors.push(error);
+        transport.onmessage = (message) => {
+          received.push(message);
+          if (received.length === 1) {
+            throw new Error('Handler failed');
+          }
+          resolve();
+        };
+        void transport.start();
+      });
+    });
+
+    const socket = new WebSocket(`ws://127.0.0.1:${(failing.address() as AddressInfo).port}`);
+    try {
+      await once(socket, 'open');
+      socket.send(JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }));
+      socket.send(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'ping' }));
+      await second;
+      assert.equal(received.length, 2);
+      assert.deepEqual(errors.map(({ message }) => message), ['Handler failed']);
+    } finally {
+      socket.close();
+      failing.close();
+    }
+  });
+
+  it('closes the connection on the next message once the key is revoked', async () => {
+    const key = await home.createKey();
+    caller = key.caller;
+    const { socket, request } = await connect();
+    await request({ jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    await home.accounts.keys.revoke(key.id);
+    const closed = once(socket, 'close');
+    socket.send(JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' }));
+    const [code, reason] = await closed;
+    assert.equal(code, 1008);
+    assert.equal(reason.toString(), 'API key revoked or expired');
+  });
+
+  it('closes idle connections on the heartbeat once the key is revoked', async () => {
+    const key = await home.createKey();
+    caller = key.caller;
+    heartbeatIntervalMs = 50;
+    try {
+      const { socket } = await connect();
+      const closed = once(socket, 'close');
+      await home.accounts.keys.revoke(key.id);
+      const [code] = await closed;
+      assert.equal(code, 1008);
+    } finally {
+      heartbeatIntervalMs = 0;
+    }
+  });
+});